@@ -0,0 +1,170 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtemp, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ethers } from 'ethers';
+import { runCli } from './cli.js';
+import type { CliClientFactory } from './cli.js';
+import { HookDataCodec } from '../shared/index.js';
+import type { X402Client, X402ClientConfig } from '../client/client.js';
+import type { DiscoveredServices, PreparedTransaction, TransactionParams, X402Service } from '../shared/types.js';
+
+const HOOK = '0x2222222222222222222222222222222222222222';
+const NFT = '0x3333333333333333333333333333333333333333';
+const PAY_TO = '0x4444444444444444444444444444444444444444';
+const PAYER = '0x5555555555555555555555555555555555555555';
+
+const SERVICE: X402Service = {
+  id: 'nft-shop',
+  title: 'NFT Shop',
+  hookType: 'nft-mint',
+  hookAddress: HOOK,
+  network: 'cronos-testnet',
+  settlementRouter: '0x1111111111111111111111111111111111111111',
+  usdcAddress: NFT,
+  token: { address: NFT, name: 'USD Coin', version: '2', decimals: 6 },
+  chainId: 338,
+  supportingContracts: { nftContract: NFT },
+  defaults: { paymentAmount: '1', facilitatorFee: '0', payTo: PAY_TO },
+};
+
+const DISCOVERED: DiscoveredServices = {
+  serverUrl: 'https://merchant.example',
+  agentCard: { name: 'Merchant', url: 'https://merchant.example', services: [SERVICE] },
+  services: [SERVICE],
+  invalidServices: [{ index: 1, serviceId: 'broken', issues: ['hookAddress must be an address, got 0x1'] }],
+  signer: PAYER,
+};
+
+/**
+ * Run the CLI with captured output and a stub client
+ */
+async function run(argv: string[], client: Partial<Record<keyof X402Client, unknown>> = {}) {
+  const out: string[] = [];
+  const err: string[] = [];
+  const configs: X402ClientConfig[] = [];
+  const createClient: CliClientFactory = (config) => {
+    configs.push(config);
+    return { discover: async () => DISCOVERED, ...client } as unknown as X402Client;
+  };
+  const code = await runCli(argv, { stdout: (t) => out.push(t), stderr: (t) => err.push(t) }, createClient);
+  return { code, stdout: out.join(''), stderr: err.join(''), configs };
+}
+
+describe('runCli arguments', () => {
+  it('prints usage for --help and exits 0', async () => {
+    const { code, stdout } = await run(['--help']);
+    expect(code).toBe(0);
+    expect(stdout).toContain('Usage: x402 <command>');
+  });
+
+  it('prints usage and exits 2 without a command', async () => {
+    const { code, stdout } = await run([]);
+    expect(code).toBe(2);
+    expect(stdout).toContain('Usage: x402 <command>');
+  });
+
+  it('rejects unknown options with usage on stderr', async () => {
+    const { code, stderr } = await run(['discover', 'https://merchant.example', '--bogus']);
+    expect(code).toBe(2);
+    expect(stderr).toContain("Unknown option '--bogus'");
+    expect(stderr).toContain('Usage: x402 <command>');
+  });
+
+  it.each<[string[], string]>([
+    [['launch'], 'error [CONFIGURATION_ERROR]: Unknown command: launch'],
+    [['discover'], 'error [CONFIGURATION_ERROR]: Missing argument: <url>'],
+    [['service', 'https://merchant.example'], 'Missing argument: <id>'],
+    [['sign'], 'Missing option: --in'],
+    [['hookdata', 'pack', 'nft-mint', '{}'], 'Unknown hookdata action: pack'],
+  ])('exits 1 for %j', async (argv, message) => {
+    const { code, stdout, stderr } = await run(argv);
+    expect(code).toBe(1);
+    expect(stdout).toBe('');
+    expect(stderr).toContain(message);
+  });
+
+  it('passes --network and --rpc-url to the client', async () => {
+    const { configs } = await run(['discover', 'https://merchant.example', '--network', 'cronos', '--rpc-url', 'http://rpc']);
+    expect(configs).toEqual([{ network: 'cronos', rpcUrl: 'http://rpc', signer: undefined }]);
+  });
+});
+
+describe('runCli commands', () => {
+  it('lists discovered services, rejected services and the card signer', async () => {
+    const { code, stdout } = await run(['discover', 'https://merchant.example']);
+    expect(code).toBe(0);
+    expect(stdout).toBe([
+      'nft-shop\tnft-mint\t1 USD Coin\tNFT Shop',
+      'invalid #1 (broken): hookAddress must be an address, got 0x1',
+      `signed by ${PAYER}`,
+      '',
+    ].join('\n'));
+  });
+
+  it('prints the full discovery result with --json', async () => {
+    const { stdout } = await run(['discover', 'https://merchant.example', '--json']);
+    expect(JSON.parse(stdout)).toMatchObject({ services: [{ id: 'nft-shop' }], signer: PAYER });
+  });
+
+  it('fails when the card cannot be fetched', async () => {
+    const discover = async () => ({ ...DISCOVERED, services: [], error: 'HTTP 500' });
+    const { code, stderr } = await run(['discover', 'https://merchant.example'], { discover });
+    expect(code).toBe(1);
+    expect(stderr).toContain('HTTP 500');
+  });
+
+  it('shows one service with its hookData schema', async () => {
+    const { stdout } = await run(['service', 'https://merchant.example', 'nft-shop']);
+    expect(JSON.parse(stdout)).toMatchObject({ id: 'nft-shop', hookDataSchema: { hookType: 'nft-mint' } });
+
+    const missing = await run(['service', 'https://merchant.example', 'broken']);
+    expect(missing.stderr).toContain('Service broken failed validation');
+  });
+
+  it('prepares a payment from the service defaults', async () => {
+    const prepareTransaction = vi.fn(async (params: TransactionParams) => ({
+      params: { value: 1_000_000n, facilitatorFee: 0n, payTo: params.payTo },
+      hookData: HookDataCodec.encode('nft-mint', params.hookDataParams),
+    }) as unknown as PreparedTransaction);
+    const { code, stdout } = await run(
+      ['prepare', 'https://merchant.example', 'nft-shop', '--payer', PAYER, '--validity', '300'],
+      { prepareTransaction }
+    );
+
+    expect(code).toBe(0);
+    expect(prepareTransaction).toHaveBeenCalledWith(expect.objectContaining({
+      payerAddress: PAYER,
+      payTo: PAY_TO,
+      paymentAmount: '1',
+      facilitatorFee: '0',
+      hookDataParams: { type: 'nft-mint', nftContract: NFT },
+      validitySeconds: 300,
+    }));
+    expect(JSON.parse(stdout)).toMatchObject({ params: { value: '1000000', facilitatorFee: '0', payTo: PAY_TO } });
+  });
+
+  it('requires --payer to prepare a payment', async () => {
+    const { code, stderr } = await run(['prepare', 'https://merchant.example', 'nft-shop']);
+    expect(code).toBe(1);
+    expect(stderr).toContain('prepare needs --payer');
+  });
+
+  it('encodes and decodes hook data without a client', async () => {
+    const encoded = await run(['hookdata', 'encode', 'nft-mint', JSON.stringify({ nftContract: NFT })]);
+    const hex = encoded.stdout.trim();
+    expect(ethers.isHexString(hex)).toBe(true);
+
+    const decoded = await run(['hookdata', 'decode', 'nft-mint', hex]);
+    expect(JSON.parse(decoded.stdout)).toEqual({ type: 'nft-mint', nftContract: NFT });
+    expect(encoded.configs).toEqual([]);
+  });
+
+  it('writes output to --out instead of stdout', async () => {
+    const out = join(await mkdtemp(join(tmpdir(), 'x402-cli-')), 'services.txt');
+    const { stdout, stderr } = await run(['discover', 'https://merchant.example', '--out', out]);
+    expect(stdout).toBe('');
+    expect(stderr).toBe(`Wrote ${out}\n`);
+    expect(await readFile(out, 'utf8')).toContain('nft-shop\tnft-mint');
+  });
+});
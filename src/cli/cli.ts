@@ -0,0 +1,315 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { ethers } from 'ethers';
+import { ConfigurationError, X402Error } from '../errors/index.js';
+import { HookDataCodec, HookRegistry, TransactionSerializer } from '../shared/index.js';
+import type { HookDataParams, SettlementRequest, X402Service } from '../shared/types.js';
+import { X402Client } from '../client/client.js';
+import type { X402ClientConfig } from '../client/client.js';
+
+const USAGE = `Usage: x402 <command> [options]
+
+Commands:
+  discover <url>                      List the services published by a server
+  service <url> <id>                  Show one service with its hookData schema
+  prepare <url> <id> --payer <addr>   Prepare a payment and write it as JSON
+          [--pay-to <addr>] [--amount <n>] [--fee <n>]
+          [--hook-data <json>] [--validity <seconds>]
+  sign --in <file> --keystore <file>  Sign a prepared payment
+  submit --in <file> --keystore <file>
+                                      Submit a signed payment; the keystore wallet pays gas
+  simulate --in <file> [--keystore <file>]
+                                      Dry-run a signed payment without sending it
+  hookdata encode <hookType> <json>   Encode hook data parameters
+  hookdata decode <hookType> <hex>    Decode hook data
+
+Options:
+  --network <name>     Network name (default: cronos-testnet)
+  --rpc-url <url>      Override the network's RPC URL
+  --out <file>         Write output to a file instead of stdout
+  --password-file <f>  Keystore password file (default: X402_KEYSTORE_PASSWORD)
+  --json               Print full JSON output
+  -h, --help           Show this help
+`;
+
+const OPTIONS = {
+  network: { type: 'string', default: 'cronos-testnet' },
+  'rpc-url': { type: 'string' },
+  out: { type: 'string' },
+  in: { type: 'string' },
+  keystore: { type: 'string' },
+  'password-file': { type: 'string' },
+  payer: { type: 'string' },
+  'pay-to': { type: 'string' },
+  amount: { type: 'string' },
+  fee: { type: 'string' },
+  'hook-data': { type: 'string' },
+  validity: { type: 'string' },
+  json: { type: 'boolean', default: false },
+  help: { type: 'boolean', short: 'h', default: false },
+} as const;
+
+type CliValues = ReturnType<typeof parseCliArgs>['values'];
+
+/**
+ * Where the CLI writes its output; injectable for embedding
+ */
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const defaultIO: CliIO = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+/**
+ * Builds the client each command talks to; injectable for embedding and tests
+ */
+export type CliClientFactory = (config: X402ClientConfig) => X402Client;
+
+/**
+ * Client for the current command, optionally with a signer
+ */
+type ClientProvider = (signer?: ethers.Signer) => X402Client;
+
+function parseCliArgs(argv: string[]) {
+  return parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+}
+
+/**
+ * Run the x402 command-line tool. Returns the process exit code
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIO = defaultIO,
+  createClient: CliClientFactory = (config) => new X402Client(config)
+): Promise<number> {
+  let parsed: ReturnType<typeof parseCliArgs>;
+  try {
+    parsed = parseCliArgs(argv);
+  } catch (error) {
+    io.stderr(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    io.stdout(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  try {
+    const client: ClientProvider = (signer) =>
+      createClient({ network: values.network, rpcUrl: values['rpc-url'], signer });
+    const output = await runCommand(command, args, values, client);
+    const text = typeof output === 'string'
+      ? `${output}\n`
+      : `${JSON.stringify(TransactionSerializer.toJsonSafe(output), null, 2)}\n`;
+    if (values.out) {
+      await writeFile(values.out, text, 'utf8');
+      io.stderr(`Wrote ${values.out}\n`);
+    } else {
+      io.stdout(text);
+    }
+    return 0;
+  } catch (error) {
+    const code = error instanceof X402Error ? ` [${error.code}]` : '';
+    io.stderr(`error${code}: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+}
+
+async function runCommand(
+  command: string,
+  args: string[],
+  values: CliValues,
+  client: ClientProvider
+): Promise<unknown> {
+  switch (command) {
+    case 'discover':
+      return discover(requireArg(args, 0, 'url'), values, client);
+    case 'service':
+      return showService(requireArg(args, 0, 'url'), requireArg(args, 1, 'id'), client);
+    case 'prepare':
+      return prepare(requireArg(args, 0, 'url'), requireArg(args, 1, 'id'), values, client);
+    case 'sign':
+      return sign(values, client);
+    case 'submit':
+      return submit(values, client);
+    case 'simulate':
+      return simulate(values, client);
+    case 'hookdata':
+      return hookData(requireArg(args, 0, 'encode|decode'), requireArg(args, 1, 'hookType'), requireArg(args, 2, 'data'));
+    default:
+      throw new ConfigurationError(`Unknown command: ${command}. Run x402 --help`);
+  }
+}
+
+async function discover(url: string, values: CliValues, client: ClientProvider): Promise<unknown> {
+  const discovered = await client().discover(url);
+  if (values.json) {
+    return discovered;
+  }
+  if (discovered.error) {
+    throw new ConfigurationError(discovered.error);
+  }
+  const lines = discovered.services.map((s) =>
+    `${s.id}\t${s.hookType}\t${s.defaults ? `${s.defaults.paymentAmount} ${s.token?.name ?? ''}`.trim() : '-'}\t${s.title}`
+  );
+  for (const { index, serviceId, issues } of discovered.invalidServices) {
+    lines.push(`invalid #${index}${serviceId ? ` (${serviceId})` : ''}: ${issues.join('; ')}`);
+  }
+  if (discovered.signer) {
+    lines.push(`signed by ${discovered.signer}`);
+  }
+  return lines.length > 0 ? lines.join('\n') : 'No services found';
+}
+
+async function showService(url: string, id: string, client: ClientProvider): Promise<unknown> {
+  const service = await findService(client(), url, id);
+  return { ...service, hookDataSchema: HookDataCodec.getSchema(service.hookType) };
+}
+
+async function prepare(url: string, id: string, values: CliValues, client: ClientProvider): Promise<unknown> {
+  const x402 = client();
+  const service = await findService(x402, url, id);
+  const payTo = values['pay-to'] ?? service.defaults?.payTo;
+  const paymentAmount = values.amount ?? service.defaults?.paymentAmount;
+  if (!values.payer || !payTo || !paymentAmount) {
+    throw new ConfigurationError(
+      'prepare needs --payer, and --pay-to and --amount when the service has no defaults',
+      [...(values.payer ? [] : ['payer']), ...(payTo ? [] : ['pay-to']), ...(paymentAmount ? [] : ['amount'])]
+    );
+  }
+
+  const hookDataParams = values['hook-data']
+    ? ({ type: service.hookType, ...parseJson(values['hook-data'], '--hook-data') } as HookDataParams)
+    : defaultHookData(service);
+
+  const prepared = await x402.prepareTransaction({
+    service,
+    payerAddress: values.payer,
+    payTo,
+    paymentAmount,
+    facilitatorFee: values.fee ?? service.defaults?.facilitatorFee,
+    hookDataParams,
+    validitySeconds: values.validity ? parseSeconds(values.validity) : undefined,
+  });
+  return TransactionSerializer.serialize(prepared);
+}
+
+async function sign(values: CliValues, client: ClientProvider): Promise<SettlementRequest> {
+  const prepared = TransactionSerializer.deserialize(await readJson(requireOption(values.in, 'in')));
+  const wallet = await loadKeystore(values);
+  if (wallet.address.toLowerCase() !== prepared.params.from.toLowerCase()) {
+    throw new ConfigurationError(`Keystore address ${wallet.address} is not the payer ${prepared.params.from}`);
+  }
+  const signature = await client(wallet).signTransaction(prepared);
+  return { prepared: TransactionSerializer.serialize(prepared), signature };
+}
+
+async function submit(values: CliValues, client: ClientProvider): Promise<unknown> {
+  const { prepared, signature } = await readSigned(values);
+  const relayer = await loadKeystore(values);
+  const result = await client().submitTransaction(prepared, signature, relayer);
+  return TransactionSerializer.serializeResult(result);
+}
+
+async function simulate(values: CliValues, client: ClientProvider): Promise<unknown> {
+  const { prepared, signature } = await readSigned(values);
+  const relayer = values.keystore ? await loadKeystore(values) : undefined;
+  return client().simulateTransaction(prepared, signature, relayer);
+}
+
+function hookData(action: string, hookType: string, data: string): unknown {
+  if (action === 'encode') {
+    return HookDataCodec.encode(hookType, { type: hookType, ...parseJson(data, 'hook data') } as HookDataParams);
+  }
+  if (action === 'decode') {
+    return HookDataCodec.decode(hookType, data);
+  }
+  throw new ConfigurationError(`Unknown hookdata action: ${action}. Use encode or decode`);
+}
+
+async function findService(client: X402Client, url: string, id: string): Promise<X402Service> {
+  const discovered = await client.discover(url);
+  if (discovered.error) {
+    throw new ConfigurationError(discovered.error);
+  }
+  const service = discovered.services.find((s) => s.id === id);
+  if (!service) {
+    const invalid = discovered.invalidServices.find((s) => s.serviceId === id);
+    throw new ConfigurationError(invalid
+      ? `Service ${id} failed validation: ${invalid.issues.join('; ')}`
+      : `No service ${id} at ${url}`);
+  }
+  return service;
+}
+
+function defaultHookData(service: X402Service): HookDataParams {
+  const params = HookRegistry.get(service.hookType)?.defaultParams?.(service);
+  if (params) {
+    return params;
+  }
+  throw new ConfigurationError(`--hook-data is required for service ${service.id}`, ['hook-data']);
+}
+
+async function readSigned(values: CliValues) {
+  const request = (await readJson(requireOption(values.in, 'in'))) as SettlementRequest;
+  if (typeof request?.signature !== 'string') {
+    throw new ConfigurationError(`${values.in} is not a signed payment; run x402 sign first`, ['signature']);
+  }
+  return { prepared: TransactionSerializer.deserialize(request.prepared), signature: request.signature };
+}
+
+async function loadKeystore(values: CliValues): Promise<ethers.Wallet> {
+  const keystore = await readFile(requireOption(values.keystore, 'keystore'), 'utf8');
+  const password = values['password-file']
+    ? (await readFile(values['password-file'], 'utf8')).trimEnd()
+    : process.env.X402_KEYSTORE_PASSWORD;
+  if (password === undefined) {
+    throw new ConfigurationError(
+      'Keystore password required: pass --password-file or set X402_KEYSTORE_PASSWORD',
+      ['password-file']
+    );
+  }
+  const wallet = await ethers.Wallet.fromEncryptedJson(keystore, password);
+  return wallet instanceof ethers.Wallet ? wallet : new ethers.Wallet(wallet.privateKey);
+}
+
+async function readJson(path: string): Promise<unknown> {
+  return parseJson(await readFile(path, 'utf8'), path);
+}
+
+function parseJson(text: string, source: string): Record<string, unknown> {
+  try {
+    return JSON.parse(text) as Record<string, unknown>;
+  } catch {
+    throw new ConfigurationError(`${source} is not valid JSON`);
+  }
+}
+
+function parseSeconds(value: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new ConfigurationError(`--validity must be a whole number of seconds, got ${value}`, ['validity']);
+  }
+  return Number(value);
+}
+
+function requireArg(args: string[], index: number, name: string): string {
+  const value = args[index];
+  if (value === undefined) {
+    throw new ConfigurationError(`Missing argument: <${name}>. Run x402 --help`, [name]);
+  }
+  return value;
+}
+
+function requireOption(value: string | undefined, name: string): string {
+  if (value === undefined) {
+    throw new ConfigurationError(`Missing option: --${name}`, [name]);
+  }
+  return value;
+}
@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+import { runCli } from './cli.js';
+
+// Idle RPC providers can keep the process alive, so exit explicitly, but only once
+// piped output has been flushed
+runCli(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+  process.stdout.write('', () => process.stderr.write('', () => process.exit()));
+});
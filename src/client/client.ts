@@ -1,34 +1,106 @@
 import { ethers } from 'ethers';
 import {
-  NetworkError,
   SignatureError,
-  TransactionError,
   ConfigurationError,
+  PaymentValidationError,
+  ServiceVerificationError,
 } from '../errors/index.js';
 import {
   NetworkConfig,
   ContractReader,
   HookDataCodec,
-  SETTLEMENT_ROUTER_ABI,
+  HookRegistry,
+  SettlementExecutor,
+  CommitmentCalculator,
+  SignatureVerifier,
+  splitTypedData,
+  TransactionSerializer,
+  X402_PAYMENT_HEADER,
+  X402_PAYMENT_RESPONSE_HEADER,
 } from '../shared/index.js';
 import type {
-  CronosNetwork,
-  AgentCard,
+  NetworkName,
+  NetworkDefinition,
   DiscoveredServices,
   TransactionParams,
   PreparedTransaction,
   TransactionResult,
   EIP712TypedData,
   HookDataParams,
-  TransactionEvent,
+  X402Service,
+  PaymentRequirements,
+  PaymentRequiredResponse,
+  PaymentResponse,
+  TokenInfo,
+  SignatureVerificationResult,
+  SimulationResult,
+  AuthorizationStatus,
+  PreparedCancellation,
+  ServiceVerificationResult,
 } from '../shared/types.js';
+import type {
+  AuthorizationLogOptions,
+  CommitmentParams,
+  ContractReaderOptions,
+  RpcOptions,
+} from '../shared/index.js';
+import { createSigner, isEthersSigner } from './signer.js';
+import type { X402Signer, SignerInput } from './signer.js';
+import { ServiceDiscovery } from './discovery.js';
+import type { DiscoveryOptions } from './discovery.js';
 
 /**
  * Client configuration
  */
 export interface X402ClientConfig {
-  network: CronosNetwork;
+  /** Known network name or a custom network definition */
+  network: NetworkName | NetworkDefinition;
   rpcUrl?: string;
+  /** Payer signer: ethers Signer, EIP-1193 provider or remote signing callback */
+  signer?: SignerInput;
+  /** Wallet that submits settleAndExecute and pays gas; defaults to an ethers payer signer */
+  relayer?: ethers.Signer;
+  /** Where nonces come from: read from the router over RPC (default) or computed locally */
+  commitmentSource?: 'local' | 'router';
+  /** Known EIP-712 domain info keyed by token address, used instead of RPC reads */
+  tokenInfo?: Record<string, TokenInfo>;
+  /** Prepare transactions without any RPC calls; token info must be supplied up front */
+  offline?: boolean;
+  /** Timeouts, retries and caching for agent card discovery */
+  discovery?: DiscoveryOptions;
+  /** Verify every service on-chain with verifyService before preparing a payment to it */
+  strict?: boolean;
+  /** Payment tokens accepted besides the network's default token and those in tokenInfo */
+  trustedTokens?: string[];
+  /** Multicall3 batching and caching of on-chain reads */
+  contractReader?: ContractReaderOptions;
+  /** RPC failover, retries, timeouts and rate limiting */
+  rpc?: RpcOptions;
+}
+
+/**
+ * Parameters for a one-shot payment; omitted values fall back to the service defaults
+ */
+export interface PayParams {
+  hookDataParams?: HookDataParams;
+  payTo?: string;
+  paymentAmount?: string;
+  facilitatorFee?: string;
+  validitySeconds?: number;
+}
+
+/**
+ * Options for fetching a resource that may require payment
+ */
+export interface PaymentFetchOptions {
+  /** Hook data to pay with; defaults to the service's supporting contracts */
+  hookDataParams?: HookDataParams;
+  /** Refuse to pay more than this amount in token units (e.g. "1.5") */
+  maxAmount?: string;
+  /** Authorization validity window in seconds */
+  validitySeconds?: number;
+  /** Pick which of the advertised requirements to pay */
+  selectRequirements?: (accepts: PaymentRequirements[]) => PaymentRequirements | undefined;
 }
 
 /**
@@ -36,12 +108,46 @@ export interface X402ClientConfig {
  */
 export class X402Client {
   private contractReader: ContractReader;
+  private network: NetworkName;
   private networkSettings: ReturnType<typeof NetworkConfig.getConfig>;
+  private signer?: X402Signer;
+  private relayer?: ethers.Signer;
+  private commitmentSource: 'local' | 'router';
+  private offline: boolean;
+  private tokenInfoCache: Map<string, TokenInfo> = new Map();
+  private signatureVerifier: SignatureVerifier;
+  private discovery: ServiceDiscovery;
+  private strict: boolean;
+  private trustedTokens: Set<string>;
+  private verifiedServices: Set<string> = new Set();
 
   constructor(config: X402ClientConfig) {
     this.validateConfig(config);
-    this.networkSettings = NetworkConfig.getConfig(config.network, config.rpcUrl);
-    this.contractReader = new ContractReader(this.networkSettings.rpcUrl);
+    this.network = NetworkConfig.resolve(config.network);
+    this.commitmentSource = config.commitmentSource ?? 'router';
+    this.offline = config.offline ?? false;
+    this.strict = config.strict ?? false;
+    for (const [address, info] of Object.entries(config.tokenInfo ?? {})) {
+      this.setTokenInfo(address, info);
+    }
+    this.networkSettings = NetworkConfig.getConfig(this.network, config.rpcUrl);
+    this.trustedTokens = new Set(
+      [this.networkSettings.usdcAddress, ...Object.keys(config.tokenInfo ?? {}), ...(config.trustedTokens ?? [])]
+        .map((address) => address.toLowerCase())
+    );
+    this.contractReader = new ContractReader(
+      [this.networkSettings.rpcUrl, ...(this.networkSettings.fallbackRpcUrls ?? [])],
+      { ...config.contractReader, rpc: config.rpc ?? config.contractReader?.rpc }
+    );
+    this.signatureVerifier = new SignatureVerifier(this.contractReader);
+    this.discovery = new ServiceDiscovery(this.networkSettings.chainId, config.discovery);
+    if (config.signer) {
+      this.signer = createSigner(config.signer);
+    }
+    const relayer = config.relayer ?? (isEthersSigner(config.signer) ? config.signer : undefined);
+    if (relayer) {
+      this.relayer = relayer.provider ? relayer : relayer.connect(this.contractReader.getProvider());
+    }
   }
 
   /**
@@ -51,73 +157,163 @@ export class X402Client {
     if (!config.network) {
       throw new ConfigurationError('Missing required field: network', ['network']);
     }
-    if (!NetworkConfig.isValidNetwork(config.network)) {
+    if (typeof config.network === 'string' && !NetworkConfig.isValidNetwork(config.network)) {
       throw new ConfigurationError(
-        `Invalid network: ${config.network}. Must be 'cronos' or 'cronos-testnet'`
+        `Invalid network: ${config.network}. Known networks: ${NetworkConfig.listNetworks().join(', ')}`
       );
     }
+    if (config.strict && config.offline) {
+      throw new ConfigurationError('strict mode needs RPC access and cannot be combined with offline');
+    }
   }
 
   /**
-   * Discover services from a server
+   * Discover and validate services from a server. Failures are reported on the result
    */
   async discover(serverUrl: string): Promise<DiscoveredServices> {
-    try {
-      const agentCardUrl = `${serverUrl.replace(/\/$/, '')}/.well-known/agent.json`;
-      const response = await fetch(agentCardUrl);
-
-      if (!response.ok) {
-        throw new NetworkError(
-          `Failed to fetch agent card: ${response.statusText}`,
-          agentCardUrl,
-          response.status
-        );
+    return this.discovery.discover(serverUrl);
+  }
+
+  /**
+   * Discover services from multiple servers
+   */
+  async discoverAll(serverUrls: string[]): Promise<DiscoveredServices[]> {
+    return this.discovery.discoverAll(serverUrls);
+  }
+
+  /**
+   * Forget cached agent cards, for one server or all of them
+   */
+  clearDiscoveryCache(serverUrl?: string): void {
+    this.discovery.clearCache(serverUrl);
+  }
+
+  /**
+   * Check an advertised service against the chain: code exists at every address, the hook
+   * points at the advertised router, and the token is trusted and matches its advertised info
+   */
+  async verifyService(service: X402Service): Promise<ServiceVerificationResult> {
+    const issues: string[] = [];
+    const tokenAddress = service.token?.address ?? service.usdcAddress;
+
+    if (service.chainId !== this.networkSettings.chainId) {
+      issues.push(`chainId must be ${this.networkSettings.chainId}, got ${service.chainId}`);
+    }
+    if (!this.trustedTokens.has(tokenAddress.toLowerCase())) {
+      issues.push(`Token ${tokenAddress} is not the network token or a trusted token`);
+    }
+
+    const addresses: Record<string, string> = {
+      hookAddress: service.hookAddress,
+      settlementRouter: service.settlementRouter,
+      token: tokenAddress,
+    };
+    for (const [name, address] of Object.entries(service.supportingContracts ?? {})) {
+      if (address) {
+        addresses[`supportingContracts.${name}`] = address;
+      }
+    }
+    const missing = await Promise.all(
+      Object.entries(addresses).map(async ([field, address]) => {
+        try {
+          return (await this.contractReader.contractExists(address)) ? undefined : field;
+        } catch (error) {
+          issues.push(`Could not read contract code at ${field} ${address}: ${
+            error instanceof Error ? error.message : 'read failed'
+          }`);
+          return undefined;
+        }
+      })
+    );
+    for (const field of missing) {
+      if (field) {
+        issues.push(`No contract code at ${field} ${addresses[field]}`);
       }
+    }
 
-      const agentCard = (await response.json()) as AgentCard;
-
-      return {
-        serverUrl,
-        agentCard,
-        services: agentCard.services,
-      };
-    } catch (error) {
-      if (error instanceof NetworkError) {
-        return {
-          serverUrl,
-          agentCard: { name: '', url: serverUrl, services: [] },
-          services: [],
-          error: error.message,
-        };
+    if (!missing.includes('hookAddress')) {
+      try {
+        const router = await this.contractReader.getSettlementRouter(service.hookAddress);
+        if (router.toLowerCase() !== service.settlementRouter.toLowerCase()) {
+          issues.push(`Hook settlementRouter() is ${router}, service advertises ${service.settlementRouter}`);
+        }
+      } catch (error) {
+        issues.push(`Could not read settlementRouter() from hook: ${
+          error instanceof Error ? error.message : 'read failed'
+        }`);
       }
-      return {
-        serverUrl,
-        agentCard: { name: '', url: serverUrl, services: [] },
-        services: [],
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
     }
+
+    if (service.token && !missing.includes('token')) {
+      try {
+        const onChain = await this.getTokenInfo(tokenAddress);
+        for (const field of ['name', 'version', 'decimals'] as const) {
+          if (onChain[field] !== service.token[field]) {
+            issues.push(`token.${field} is ${onChain[field]} on-chain, service advertises ${service.token[field]}`);
+          }
+        }
+      } catch (error) {
+        issues.push(`Could not read token info: ${error instanceof Error ? error.message : 'read failed'}`);
+      }
+    }
+
+    return { serviceId: service.id, verified: issues.length === 0, issues };
   }
 
   /**
-   * Discover services from multiple servers
+   * Throw a ServiceVerificationError unless the service verifies. Successful checks are remembered
    */
-  async discoverAll(serverUrls: string[]): Promise<DiscoveredServices[]> {
-    const results = await Promise.all(
-      serverUrls.map((url) => this.discover(url))
-    );
-    return results;
+  async assertServiceVerified(service: X402Service): Promise<void> {
+    const key = [
+      service.chainId,
+      service.hookAddress,
+      service.settlementRouter,
+      service.token?.address ?? service.usdcAddress,
+      service.token?.name,
+      service.token?.version,
+      service.token?.decimals,
+      ...Object.values(service.supportingContracts ?? {}),
+    ].join(':').toLowerCase();
+    if (this.verifiedServices.has(key)) {
+      return;
+    }
+
+    const result = await this.verifyService(service);
+    if (!result.verified) {
+      throw new ServiceVerificationError(
+        `Service ${service.id} failed on-chain verification`,
+        service.id,
+        result.issues
+      );
+    }
+    this.verifiedServices.add(key);
   }
 
   /**
-   * Prepare a transaction for signing
+   * Prepare a transaction for signing. In strict mode the service is verified on-chain first
    */
   async prepareTransaction(params: TransactionParams): Promise<PreparedTransaction> {
     const { service, payerAddress, payTo, paymentAmount, hookDataParams } = params;
     const facilitatorFee = params.facilitatorFee || '0';
     const validitySeconds = params.validitySeconds || 3600;
 
-    // Encode hookData
+    if (this.strict) {
+      await this.assertServiceVerified(service);
+    }
+
+    // Validate and encode hookData
+    if (!HookRegistry.has(service.hookType)) {
+      throw new ConfigurationError(
+        `Unknown hook type: ${service.hookType}. Register it with HookRegistry.register`,
+        ['hookType']
+      );
+    }
+    if (hookDataParams.type !== service.hookType || !HookDataCodec.validate(hookDataParams)) {
+      throw new ConfigurationError(
+        `Invalid hookDataParams for hook type ${service.hookType}`,
+        ['hookDataParams']
+      );
+    }
     const hookData = HookDataCodec.encode(service.hookType, hookDataParams);
 
     // Generate salt
@@ -127,29 +323,30 @@ export class X402Client {
     const validAfter = 0;
     const validBefore = Math.floor(Date.now() / 1000) + validitySeconds;
 
+    // Get token info for EIP-712 domain and decimals
+    const tokenAddress = service.token?.address ?? service.usdcAddress;
+    const tokenInfo = await this.getTokenInfo(tokenAddress, service.token);
+
     // Parse amounts
-    const value = ethers.parseUnits(paymentAmount, 6); // USDC has 6 decimals
-    const fee = ethers.parseUnits(facilitatorFee, 6);
+    const value = ethers.parseUnits(paymentAmount, tokenInfo.decimals);
+    const fee = ethers.parseUnits(facilitatorFee, tokenInfo.decimals);
 
     // Calculate commitment (nonce)
-    const nonce = await this.contractReader.calculateCommitment(
-      service.settlementRouter,
-      {
-        token: service.usdcAddress,
-        from: payerAddress,
-        value,
-        validAfter,
-        validBefore,
-        salt,
-        payTo,
-        facilitatorFee: fee,
-        hook: service.hookAddress,
-        hookData,
-      }
-    );
-
-    // Get token info for EIP-712 domain
-    const tokenInfo = await this.contractReader.getTokenInfo(service.usdcAddress);
+    const commitmentParams: CommitmentParams = {
+      token: tokenAddress,
+      from: payerAddress,
+      value,
+      validAfter,
+      validBefore,
+      salt,
+      payTo,
+      facilitatorFee: fee,
+      hook: service.hookAddress,
+      hookData,
+    };
+    const nonce = this.commitmentSource === 'local' || this.offline
+      ? CommitmentCalculator.calculate(service.settlementRouter, service.chainId, commitmentParams)
+      : await this.contractReader.calculateCommitment(service.settlementRouter, commitmentParams);
 
     // Build EIP-712 typed data
     const typedData: EIP712TypedData = {
@@ -174,7 +371,7 @@ export class X402Client {
         name: tokenInfo.name,
         version: tokenInfo.version,
         chainId: service.chainId,
-        verifyingContract: service.usdcAddress,
+        verifyingContract: tokenAddress,
       },
       message: {
         from: payerAddress,
@@ -193,7 +390,7 @@ export class X402Client {
       salt,
       hookData,
       params: {
-        token: service.usdcAddress,
+        token: tokenAddress,
         from: payerAddress,
         value,
         validAfter,
@@ -206,109 +403,353 @@ export class X402Client {
   }
 
   /**
-   * Validate signature format
+   * Seed the token info cache (e.g. for offline preparation)
    */
-  validateSignature(signature: string): boolean {
-    // Check hex format
-    if (!signature.startsWith('0x')) {
-      return false;
+  setTokenInfo(tokenAddress: string, info: TokenInfo): void {
+    this.tokenInfoCache.set(tokenAddress.toLowerCase(), { ...info });
+  }
+
+  /**
+   * Get EIP-712 domain info and decimals for a token, reading it on-chain once per client.
+   * In offline mode the advertised info is used when nothing was supplied up front.
+   */
+  async getTokenInfo(tokenAddress: string, advertised?: TokenInfo): Promise<TokenInfo> {
+    const key = tokenAddress.toLowerCase();
+    const cached = this.tokenInfoCache.get(key);
+    if (cached) {
+      return { ...cached };
+    }
+    if (this.offline && advertised) {
+      return { name: advertised.name, version: advertised.version, decimals: advertised.decimals };
+    }
+    if (this.offline) {
+      throw new ConfigurationError(
+        `No token info for ${tokenAddress} in offline mode; supply it via tokenInfo or setTokenInfo`,
+        ['tokenInfo']
+      );
     }
-    // Check length (65 bytes = 130 hex chars + '0x' prefix = 132)
-    if (signature.length !== 132) {
+    const info = await this.contractReader.getTokenInfo(tokenAddress);
+    this.tokenInfoCache.set(key, info);
+    return { ...info };
+  }
+
+  /**
+   * Validate signature format. Accepts 65-byte ECDSA signatures as well as the
+   * variable-length signatures produced by EIP-1271 smart-contract wallets.
+   */
+  validateSignature(signature: string): boolean {
+    // Check hex format with whole bytes
+    if (!signature.startsWith('0x') || signature.length <= 2) {
       return false;
     }
-    // Check all characters are valid hex
-    const hexPart = signature.slice(2);
-    return /^[0-9a-fA-F]+$/.test(hexPart);
+    return ethers.isHexString(signature, true);
+  }
+
+  /**
+   * Verify a signature against a prepared transaction without submitting it
+   */
+  async verifySignature(
+    prepared: PreparedTransaction,
+    signature: string
+  ): Promise<SignatureVerificationResult> {
+    return this.signatureVerifier.verify(prepared, signature);
   }
 
   /**
-   * Submit a signed transaction
+   * Submit a signed transaction. The relayer pays gas; it defaults to the configured relayer.
+   * Passing a private key string is deprecated in favour of an ethers Signer.
    */
   async submitTransaction(
     prepared: PreparedTransaction,
     signature: string,
-    signerPrivateKey: string
+    relayer?: ethers.Signer | string
   ): Promise<TransactionResult> {
-    // Validate signature format
-    if (!this.validateSignature(signature)) {
-      throw new SignatureError(
-        'Invalid signature format',
-        'Signature must be a 65-byte hex string starting with 0x'
+    // Verify the signature off-chain before spending gas on it
+    await this.signatureVerifier.assertValid(prepared, signature);
+
+    return new SettlementExecutor(this.resolveRelayer(relayer)).settle(prepared, signature);
+  }
+
+  /**
+   * Dry-run settleAndExecute (eth_call + estimateGas) without sending a transaction.
+   * Without a relayer the call is simulated from the payer's address.
+   */
+  async simulateTransaction(
+    prepared: PreparedTransaction,
+    signature: string,
+    relayer?: ethers.Signer | string
+  ): Promise<SimulationResult> {
+    const runner = relayer || this.relayer
+      ? this.resolveRelayer(relayer)
+      : new ethers.VoidSigner(prepared.params.from, this.contractReader.getProvider());
+    return new SettlementExecutor(runner).simulate(prepared, signature);
+  }
+
+  /**
+   * Sign a prepared transaction's typed data with the configured signer
+   */
+  async signTransaction(prepared: PreparedTransaction): Promise<string> {
+    return this.requireSigner().signTypedData(prepared.typedData);
+  }
+
+  /**
+   * Prepare, sign and submit a payment in one step
+   */
+  async pay(service: X402Service, params: PayParams = {}): Promise<TransactionResult> {
+    const signer = this.requireSigner();
+    const relayer = this.resolveRelayer();
+
+    const payTo = params.payTo ?? service.defaults?.payTo;
+    const paymentAmount = params.paymentAmount ?? service.defaults?.paymentAmount;
+    if (!payTo || !paymentAmount) {
+      throw new ConfigurationError(
+        `payTo and paymentAmount are required for service ${service.id}`,
+        [...(payTo ? [] : ['payTo']), ...(paymentAmount ? [] : ['paymentAmount'])]
       );
     }
 
-    try {
-      const provider = this.contractReader.getProvider();
-      const signer = new ethers.Wallet(signerPrivateKey, provider);
+    const prepared = await this.prepareTransaction({
+      service,
+      payerAddress: await signer.getAddress(),
+      payTo,
+      paymentAmount,
+      facilitatorFee: params.facilitatorFee ?? service.defaults?.facilitatorFee,
+      hookDataParams: params.hookDataParams ?? this.defaultHookDataParams(service),
+      validitySeconds: params.validitySeconds,
+    });
+    const signature = await this.signTransaction(prepared);
+    return this.submitTransaction(prepared, signature, relayer);
+  }
+
+  /**
+   * Query whether a prepared authorization is still pending, expired, used or cancelled.
+   * Telling used from cancelled scans recent token logs (default: the last 10000 blocks).
+   */
+  async getAuthorizationStatus(
+    prepared: PreparedTransaction,
+    options: AuthorizationLogOptions = {}
+  ): Promise<AuthorizationStatus> {
+    const { token, from: authorizer, validBefore } = prepared.params;
+    const status = { token, authorizer, nonce: prepared.nonce, validBefore };
+
+    const usedOrCanceled = await this.contractReader.getAuthorizationState(
+      token,
+      authorizer,
+      prepared.nonce
+    );
+    if (!usedOrCanceled) {
+      const expired = validBefore <= Math.floor(Date.now() / 1000);
+      return { ...status, state: expired ? 'expired' : 'pending' };
+    }
+
+    const cancelled = await this.contractReader.isAuthorizationCanceled(
+      token,
+      authorizer,
+      prepared.nonce,
+      options
+    );
+    return { ...status, state: cancelled ? 'cancelled' : 'used' };
+  }
 
-      const router = new ethers.Contract(
-        prepared.routerAddress,
-        SETTLEMENT_ROUTER_ABI,
+  /**
+   * Build the EIP-712 CancelAuthorization typed data for a prepared authorization
+   */
+  prepareCancellation(prepared: PreparedTransaction): PreparedCancellation {
+    const { token, from: authorizer } = prepared.params;
+    return {
+      token,
+      authorizer,
+      nonce: prepared.nonce,
+      typedData: {
+        types: {
+          EIP712Domain: prepared.typedData.types.EIP712Domain,
+          CancelAuthorization: [
+            { name: 'authorizer', type: 'address' },
+            { name: 'nonce', type: 'bytes32' },
+          ],
+        },
+        primaryType: 'CancelAuthorization',
+        domain: { ...prepared.typedData.domain },
+        message: { authorizer, nonce: prepared.nonce },
+      },
+    };
+  }
+
+  /**
+   * Sign a cancellation with the configured signer
+   */
+  async signCancellation(cancellation: PreparedCancellation): Promise<string> {
+    return this.requireSigner().signTypedData(cancellation.typedData);
+  }
+
+  /**
+   * Submit a signed cancellation so the authorization can no longer be settled
+   */
+  async submitCancellation(
+    cancellation: PreparedCancellation,
+    signature: string,
+    relayer?: ethers.Signer | string
+  ): Promise<TransactionResult> {
+    let signer: string | undefined;
+    try {
+      const { domain, types, message } = splitTypedData(cancellation.typedData);
+      signer = ethers.verifyTypedData(domain, types, message, signature);
+    } catch {
+      // Reported below
+    }
+    if (!signer || signer.toLowerCase() !== cancellation.authorizer.toLowerCase()) {
+      throw new SignatureError('Invalid cancellation signature', [
         signer
-      );
+          ? { reason: 'signer-mismatch', message: `Signature was made by ${signer}, expected ${cancellation.authorizer}` }
+          : { reason: 'malformed-signature', message: 'Cancellation requires a 65-byte ECDSA signature' },
+      ]);
+    }
 
-      const tx = await router.settleAndExecute(
-        prepared.params.token,
-        prepared.params.from,
-        prepared.params.value,
-        prepared.params.validAfter,
-        prepared.params.validBefore,
-        prepared.nonce,
-        signature,
-        prepared.salt,
-        prepared.params.payTo,
-        prepared.params.facilitatorFee,
-        prepared.params.hook,
-        prepared.hookData
+    return new SettlementExecutor(this.resolveRelayer(relayer)).cancel(cancellation, signature);
+  }
+
+  /**
+   * Prepare, sign and submit a cancellation for a prepared authorization
+   */
+  async cancelAuthorization(
+    prepared: PreparedTransaction,
+    relayer?: ethers.Signer | string
+  ): Promise<TransactionResult> {
+    const cancellation = this.prepareCancellation(prepared);
+    const signature = await this.signCancellation(cancellation);
+    return this.submitCancellation(cancellation, signature, relayer);
+  }
+
+  /**
+   * Resolve the wallet that submits settlements
+   */
+  private resolveRelayer(relayer?: ethers.Signer | string): ethers.Signer {
+    const provider = this.contractReader.getProvider();
+    if (typeof relayer === 'string') {
+      return new ethers.Wallet(relayer, provider);
+    }
+    if (relayer) {
+      return relayer.provider ? relayer : relayer.connect(provider);
+    }
+    if (!this.relayer) {
+      throw new ConfigurationError('A relayer wallet is required to submit transactions', ['relayer']);
+    }
+    return this.relayer;
+  }
+
+  /**
+   * Fetch a resource, paying automatically if it responds with HTTP 402.
+   * Request bodies must be replayable (strings, buffers or a Request that can be cloned).
+   */
+  async fetchWithPayment(
+    input: string | URL | Request,
+    init?: RequestInit,
+    options: PaymentFetchOptions = {}
+  ): Promise<Response> {
+    const retryInput = input instanceof Request ? input.clone() : input;
+    const response = await fetch(input, init);
+    if (response.status !== 402) {
+      return response;
+    }
+
+    let paymentRequired: PaymentRequiredResponse;
+    try {
+      paymentRequired = (await response.clone().json()) as PaymentRequiredResponse;
+    } catch {
+      return response;
+    }
+
+    const accepts = (paymentRequired.accepts || []).filter(
+      (r) => r.scheme === 'x402-settlement-router' && r.chainId === this.networkSettings.chainId
+    );
+    const requirements = options.selectRequirements
+      ? options.selectRequirements(accepts)
+      : accepts[0];
+    if (!requirements) {
+      return response;
+    }
+
+    const { decimals } = requirements.tokenInfo;
+    if (options.maxAmount !== undefined
+      && ethers.parseUnits(requirements.amount, decimals) > ethers.parseUnits(options.maxAmount, decimals)) {
+      throw new PaymentValidationError(
+        `Payment of ${requirements.amount} exceeds maxAmount ${options.maxAmount}`,
+        [`amount ${requirements.amount} > maxAmount ${options.maxAmount}`]
       );
+    }
 
-      const receipt = await tx.wait();
+    const signer = this.requireSigner();
+    const service = this.serviceFromRequirements(requirements);
+    const prepared = await this.prepareTransaction({
+      service,
+      payerAddress: await signer.getAddress(),
+      payTo: requirements.payTo,
+      paymentAmount: requirements.amount,
+      facilitatorFee: requirements.facilitatorFee,
+      hookDataParams: options.hookDataParams ?? this.defaultHookDataParams(service),
+      validitySeconds: options.validitySeconds,
+    });
+    const signature = await this.signTransaction(prepared);
 
-      // Parse events
-      const events: TransactionEvent[] = receipt.logs.map((log: ethers.Log) => {
-        try {
-          const parsed = router.interface.parseLog({
-            topics: log.topics as string[],
-            data: log.data,
-          });
-          if (parsed) {
-            return {
-              name: parsed.name,
-              args: Object.fromEntries(
-                parsed.fragment.inputs.map((input, i) => [
-                  input.name,
-                  parsed.args[i],
-                ])
-              ),
-            };
-          }
-        } catch {
-          // Ignore unparseable logs
-        }
-        return { name: 'Unknown', args: {} };
-      });
-
-      return {
-        success: true,
-        txHash: receipt.hash,
-        blockNumber: receipt.blockNumber,
-        events,
-      };
-    } catch (error) {
-      if (error instanceof Error) {
-        // Check for revert reason
-        const revertMatch = error.message.match(/reason="([^"]+)"/);
-        const revertReason = revertMatch ? revertMatch[1] : undefined;
-
-        throw new TransactionError(
-          `Transaction failed: ${error.message}`,
-          undefined,
-          revertReason
-        );
-      }
-      throw error;
+    const headers = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+    headers.set(X402_PAYMENT_HEADER, TransactionSerializer.encodePaymentHeader(prepared, signature));
+    return fetch(retryInput, { ...init, headers });
+  }
+
+  /**
+   * Read the settlement summary from a paid response, if present
+   */
+  getPaymentResponse(response: Response): PaymentResponse | undefined {
+    const header = response.headers.get(X402_PAYMENT_RESPONSE_HEADER);
+    if (!header) {
+      return undefined;
+    }
+    return TransactionSerializer.decodeHeader(header) as PaymentResponse;
+  }
+
+  private requireSigner(): X402Signer {
+    if (!this.signer) {
+      throw new ConfigurationError('A signer is required to sign payments', ['signer']);
     }
+    return this.signer;
+  }
+
+  /**
+   * Rebuild a service description from advertised payment requirements
+   */
+  private serviceFromRequirements(requirements: PaymentRequirements): X402Service {
+    return {
+      id: requirements.serviceId,
+      title: requirements.title,
+      description: requirements.description,
+      hookType: requirements.hookType,
+      hookAddress: requirements.hookAddress,
+      network: requirements.network,
+      supportingContracts: requirements.supportingContracts,
+      defaults: {
+        paymentAmount: requirements.amount,
+        facilitatorFee: requirements.facilitatorFee,
+        payTo: requirements.payTo,
+      },
+      settlementRouter: requirements.settlementRouter,
+      usdcAddress: requirements.token,
+      token: { address: requirements.token, ...requirements.tokenInfo },
+      chainId: requirements.chainId,
+    };
+  }
+
+  /**
+   * Derive hook data from a service's supporting contracts
+   */
+  private defaultHookDataParams(service: X402Service): HookDataParams {
+    const params = HookRegistry.get(service.hookType)?.defaultParams?.(service);
+    if (params) {
+      return params;
+    }
+    throw new ConfigurationError(
+      `hookDataParams are required for service ${service.id}`,
+      ['hookDataParams']
+    );
   }
 
   /**
@@ -325,6 +766,20 @@ export class X402Client {
     return HookDataCodec.encode(hookDataParams.type, hookDataParams);
   }
 
+  /**
+   * Get the contract reader used for on-chain lookups
+   */
+  getContractReader(): ContractReader {
+    return this.contractReader;
+  }
+
+  /**
+   * Get the resolved network name
+   */
+  getNetwork(): NetworkName {
+    return this.network;
+  }
+
   /**
    * Get network settings
    */
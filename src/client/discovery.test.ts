@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ethers } from 'ethers';
+import { ServiceDiscovery } from './discovery.js';
+import { AgentCardCodec, A2A_PROTOCOL_VERSION, X402_EXTENSION_URI } from '../shared/index.js';
+import type { AgentCard, LegacyAgentCard, X402Service } from '../shared/types.js';
+
+const SERVER = 'https://merchant.example';
+const CARD_URL = `${SERVER}/.well-known/agent.json`;
+const operator = new ethers.Wallet(ethers.id('operator'));
+const impostor = new ethers.Wallet(ethers.id('impostor'));
+
+const SERVICE: X402Service = {
+  id: 'nft-shop',
+  title: 'NFT Shop',
+  hookType: 'nft-mint',
+  hookAddress: '0x1111111111111111111111111111111111111111',
+  network: 'cronos-testnet',
+  settlementRouter: '0x2222222222222222222222222222222222222222',
+  usdcAddress: '0x3333333333333333333333333333333333333333',
+  chainId: 338,
+  defaults: { paymentAmount: '1', facilitatorFee: '0', payTo: '0x4444444444444444444444444444444444444444' },
+};
+
+const LEGACY_CARD: LegacyAgentCard = {
+  name: 'Merchant',
+  url: SERVER,
+  services: [SERVICE, { ...SERVICE, id: 'wrong-chain', chainId: 25 }],
+};
+
+function a2aCard(): AgentCard {
+  return {
+    protocolVersion: A2A_PROTOCOL_VERSION,
+    name: 'Merchant',
+    description: 'Merchant',
+    url: SERVER,
+    version: '1.0.0',
+    capabilities: {
+      extensions: [{ uri: X402_EXTENSION_URI, required: true, params: { network: 'cronos-testnet', chainId: 338, services: [SERVICE] } }],
+    },
+    defaultInputModes: ['application/json'],
+    defaultOutputModes: ['application/json'],
+    skills: [],
+  };
+}
+
+type Reply = Response | Error | ((init: RequestInit) => Promise<Response>);
+
+/**
+ * Stub global fetch with one reply per call; the last reply repeats
+ */
+function stubFetch(...replies: Reply[]) {
+  const fetch = vi.fn(async (_url: string, init: RequestInit) => {
+    const reply = replies[Math.min(fetch.mock.calls.length - 1, replies.length - 1)];
+    if (reply instanceof Error) {
+      throw reply;
+    }
+    return typeof reply === 'function' ? reply(init) : reply.clone();
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+function json(body: unknown, headers: Record<string, string> = {}, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json', ...headers } });
+}
+
+const status = (code: number) => new Response(null, { status: code });
+
+/**
+ * Never answers; rejects when the request's abort signal fires
+ */
+const hang = (init: RequestInit) => new Promise<Response>((_, reject) => {
+  init.signal!.addEventListener('abort', () => reject(init.signal!.reason));
+});
+
+describe('ServiceDiscovery', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('splits advertised services into valid and invalid ones', async () => {
+    const fetch = stubFetch(json(LEGACY_CARD));
+    const result = await new ServiceDiscovery(338).discover(`${SERVER}/`);
+
+    expect(fetch).toHaveBeenCalledWith(CARD_URL, expect.objectContaining({ headers: { accept: 'application/json' } }));
+    expect(result.error).toBeUndefined();
+    expect(result.services.map((s) => s.id)).toEqual(['nft-shop']);
+    expect(result.invalidServices).toEqual([{ index: 1, serviceId: 'wrong-chain', issues: ['chainId must be 338, got 25'] }]);
+  });
+
+  describe('retries', () => {
+    it.each([
+      ['a 5xx response', status(503)],
+      ['a 429 response', status(429)],
+      ['a connection failure', new TypeError('fetch failed')],
+    ])('retries after %s', async (_, failure) => {
+      const fetch = stubFetch(failure, json(LEGACY_CARD));
+      const result = await new ServiceDiscovery(338, { retryDelayMs: 1 }).discover(SERVER);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(result.services).toHaveLength(1);
+    });
+
+    it('gives up after the configured retries', async () => {
+      const fetch = stubFetch(status(502));
+      const result = await new ServiceDiscovery(338, { retries: 2, retryDelayMs: 1 }).discover(SERVER);
+      expect(fetch).toHaveBeenCalledTimes(3);
+      expect(result.error).toBe('Failed to fetch agent card: 502 ');
+    });
+
+    it('does not retry client errors', async () => {
+      const fetch = stubFetch(status(404));
+      const result = await new ServiceDiscovery(338, { retryDelayMs: 1 }).discover(SERVER);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(result.error).toContain('404');
+    });
+
+    it('times out each attempt', async () => {
+      const fetch = stubFetch(hang);
+      const result = await new ServiceDiscovery(338, { timeoutMs: 20, retries: 1, retryDelayMs: 1 }).discover(SERVER);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(result.error).toBe('Timed out fetching agent card after 20ms');
+    });
+
+    it('reports a body that is not JSON', async () => {
+      stubFetch(new Response('<html>', { status: 200 }));
+      expect((await new ServiceDiscovery(338).discover(SERVER)).error).toBe('Agent card is not valid JSON');
+    });
+  });
+
+  describe('caching', () => {
+    it('serves cards from the cache for Cache-Control max-age', async () => {
+      const now = vi.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      const fetch = stubFetch(json(LEGACY_CARD, { 'cache-control': 'max-age=60' }));
+      const discovery = new ServiceDiscovery(338);
+
+      expect((await discovery.discover(SERVER)).cached).toBeUndefined();
+      now.mockReturnValue(1_059_999);
+      expect(await discovery.discover(SERVER)).toMatchObject({ cached: true, services: [{ id: 'nft-shop' }] });
+      expect(fetch).toHaveBeenCalledTimes(1);
+
+      now.mockReturnValue(1_060_000);
+      await discovery.discover(SERVER);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('revalidates with If-None-Match and reuses the card on 304', async () => {
+      const fetch = stubFetch(json(LEGACY_CARD, { etag: '"v1"' }), new Response(null, { status: 304 }));
+      const discovery = new ServiceDiscovery(338);
+
+      await discovery.discover(SERVER);
+      const revalidated = await discovery.discover(SERVER);
+      expect(fetch.mock.calls[1][1].headers).toEqual({ accept: 'application/json', 'if-none-match': '"v1"' });
+      expect(revalidated).toMatchObject({ cached: true, services: [{ id: 'nft-shop' }] });
+    });
+
+    it.each([
+      ['no-store', { 'cache-control': 'no-store, max-age=60', etag: '"v1"' }, {}],
+      ['caching disabled', { 'cache-control': 'max-age=60' }, { cache: false }],
+    ])('fetches every time with %s', async (_, headers, options) => {
+      const fetch = stubFetch(json(LEGACY_CARD, headers));
+      const discovery = new ServiceDiscovery(338, options);
+      await discovery.discover(SERVER);
+      await discovery.discover(SERVER);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(fetch.mock.calls[1][1].headers).toEqual({ accept: 'application/json' });
+    });
+
+    it('forgets cards on clearCache', async () => {
+      const fetch = stubFetch(json(LEGACY_CARD, { 'cache-control': 'max-age=60' }));
+      const discovery = new ServiceDiscovery(338);
+      await discovery.discover(SERVER);
+      discovery.clearCache(`${SERVER}/`);
+      await discovery.discover(SERVER);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('card signatures', () => {
+    const signed = () => AgentCardCodec.sign(a2aCard(), operator);
+
+    it('accepts a card signed by the pinned signer', async () => {
+      stubFetch(json(await signed()));
+      const result = await new ServiceDiscovery(338, { pinnedSigners: { [`${SERVER}/`]: operator.address } }).discover(SERVER);
+      expect(result.error).toBeUndefined();
+      expect(result.signer).toBe(operator.address);
+    });
+
+    it('rejects a card signed by someone other than the pinned signer', async () => {
+      stubFetch(json(await AgentCardCodec.sign(a2aCard(), impostor)));
+      const result = await new ServiceDiscovery(338, { pinnedSigners: { [SERVER]: operator.address } }).discover(SERVER);
+      expect(result.error).toBe(
+        `Agent card signed by ${impostor.address}, expected pinned signer ${operator.address.toLowerCase()}`
+      );
+      expect(result.services).toEqual([]);
+    });
+
+    it('rejects an unsigned card for a pinned server', async () => {
+      stubFetch(json(a2aCard()));
+      const result = await new ServiceDiscovery(338, { pinnedSigners: { [SERVER]: operator.address } }).discover(SERVER);
+      expect(result.error).toBe('Agent card is not signed');
+    });
+
+    it('rejects signers outside trustedSigners', async () => {
+      stubFetch(json(await AgentCardCodec.sign(a2aCard(), impostor)));
+      const result = await new ServiceDiscovery(338, { trustedSigners: [operator.address] }).discover(SERVER);
+      expect(result.error).toBe(`Agent card signer ${impostor.address} is not trusted`);
+    });
+
+    it('rejects a card changed after signing', async () => {
+      const card = await signed();
+      card.name = 'Someone else';
+      stubFetch(json(card));
+      expect((await new ServiceDiscovery(338).discover(SERVER)).error).toBe('Agent card signature is invalid');
+    });
+
+    it('does not cache rejected cards', async () => {
+      const fetch = stubFetch(json(a2aCard(), { 'cache-control': 'max-age=60' }));
+      const discovery = new ServiceDiscovery(338, { requireSignedCards: true });
+      await discovery.discover(SERVER);
+      await discovery.discover(SERVER);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import { NetworkError } from '../errors/index.js';
+import { AgentCardCodec } from '../shared/index.js';
+import type {
+  AgentCard,
+  DiscoveredServices,
+  LegacyAgentCard,
+  ServiceValidationIssue,
+  X402Service,
+} from '../shared/types.js';
+
+/**
+ * Discovery configuration
+ */
+export interface DiscoveryOptions {
+  /** Per-attempt timeout for fetching an agent card */
+  timeoutMs?: number;
+  /** Extra attempts after a timeout, connection failure, 429 or 5xx response */
+  retries?: number;
+  /** Delay before the first retry; doubles on each subsequent retry */
+  retryDelayMs?: number;
+  /** Honour ETag and Cache-Control headers between discover calls (default true) */
+  cache?: boolean;
+  /** Maximum number of agent cards fetched at once by discoverAll */
+  concurrency?: number;
+  /** Reject cards that are unsigned or whose signature does not verify */
+  requireSignedCards?: boolean;
+  /** Accept signed cards only from these addresses; implies requireSignedCards */
+  trustedSigners?: string[];
+  /** Expected card signer per server URL; implies requireSignedCards for those servers */
+  pinnedSigners?: Record<string, string>;
+}
+
+interface CacheEntry {
+  etag?: string;
+  expiresAt: number;
+  result: DiscoveredServices;
+}
+
+/**
+ * Fetches, validates and caches agent cards for X402Client
+ */
+export class ServiceDiscovery {
+  private cache: Map<string, CacheEntry> = new Map();
+  private options: Required<DiscoveryOptions>;
+  private trustedSigners: Set<string>;
+  private pinnedSigners: Map<string, string>;
+
+  constructor(
+    private chainId: number,
+    options: DiscoveryOptions = {}
+  ) {
+    this.options = {
+      timeoutMs: options.timeoutMs ?? 10000,
+      retries: options.retries ?? 2,
+      retryDelayMs: options.retryDelayMs ?? 500,
+      cache: options.cache ?? true,
+      concurrency: options.concurrency ?? 8,
+      requireSignedCards: options.requireSignedCards ?? false,
+      trustedSigners: options.trustedSigners ?? [],
+      pinnedSigners: options.pinnedSigners ?? {},
+    };
+    this.trustedSigners = new Set(this.options.trustedSigners.map((a) => a.toLowerCase()));
+    this.pinnedSigners = new Map(
+      Object.entries(this.options.pinnedSigners).map(([url, signer]) => [trimUrl(url), signer.toLowerCase()])
+    );
+  }
+
+  /**
+   * Discover and validate the services published by a server. Never throws
+   */
+  async discover(serverUrl: string): Promise<DiscoveredServices> {
+    const agentCardUrl = `${trimUrl(serverUrl)}/.well-known/agent.json`;
+    const cached = this.options.cache ? this.cache.get(agentCardUrl) : undefined;
+    if (cached && cached.expiresAt > Date.now()) {
+      return { ...cached.result, cached: true };
+    }
+
+    try {
+      const headers: Record<string, string> = { accept: 'application/json' };
+      if (cached?.etag) {
+        headers['if-none-match'] = cached.etag;
+      }
+      const response = await this.fetchWithRetry(agentCardUrl, headers);
+
+      if (response.status === 304 && cached) {
+        this.store(agentCardUrl, response, cached.result);
+        return { ...cached.result, cached: true };
+      }
+      if (!response.ok) {
+        throw new NetworkError(
+          `Failed to fetch agent card: ${response.status} ${response.statusText}`,
+          agentCardUrl,
+          response.status
+        );
+      }
+
+      let body: unknown;
+      try {
+        body = await response.json();
+      } catch {
+        throw new NetworkError('Agent card is not valid JSON', agentCardUrl, response.status);
+      }
+
+      const result = this.validate(serverUrl, body);
+      if (!result.error) {
+        this.store(agentCardUrl, response, result);
+      }
+      return result;
+    } catch (error) {
+      return this.failed(serverUrl, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  /**
+   * Discover services from multiple servers, a bounded number at a time
+   */
+  async discoverAll(serverUrls: string[]): Promise<DiscoveredServices[]> {
+    const results: DiscoveredServices[] = new Array(serverUrls.length);
+    let next = 0;
+    const worker = async () => {
+      while (next < serverUrls.length) {
+        const index = next++;
+        results[index] = await this.discover(serverUrls[index]);
+      }
+    };
+    const workers = Math.max(1, Math.min(this.options.concurrency, serverUrls.length));
+    await Promise.all(Array.from({ length: workers }, worker));
+    return results;
+  }
+
+  /**
+   * Drop cached agent cards, for one server or all of them
+   */
+  clearCache(serverUrl?: string): void {
+    if (serverUrl === undefined) {
+      this.cache.clear();
+      return;
+    }
+    this.cache.delete(`${trimUrl(serverUrl)}/.well-known/agent.json`);
+  }
+
+  /**
+   * Split a fetched card's services into valid ones and per-service issues
+   */
+  private validate(serverUrl: string, body: unknown): DiscoveredServices {
+    const cardIssues = AgentCardCodec.validateCard(body);
+    if (cardIssues.length > 0) {
+      return this.failed(serverUrl, `Invalid agent card: ${cardIssues.join('; ')}`);
+    }
+
+    const agentCard = body as AgentCard | LegacyAgentCard;
+    const signer = AgentCardCodec.recoverSigner(agentCard);
+    const signatureError = this.checkSigner(serverUrl, agentCard, signer);
+    if (signatureError) {
+      return this.failed(serverUrl, signatureError);
+    }
+
+    const services: X402Service[] = [];
+    const invalidServices: ServiceValidationIssue[] = [];
+    const seen = new Set<string>();
+
+    AgentCardCodec.getServices(agentCard).forEach((service, index) => {
+      const issues = AgentCardCodec.validateService(service, this.chainId);
+      const serviceId = typeof service?.id === 'string' ? service.id : undefined;
+      if (serviceId !== undefined && seen.has(serviceId)) {
+        issues.push(`duplicate service id ${serviceId}`);
+      }
+      if (issues.length > 0) {
+        invalidServices.push({ index, serviceId, issues });
+        return;
+      }
+      seen.add(service.id);
+      services.push(service);
+    });
+
+    return { serverUrl, agentCard, services, invalidServices, ...(signer ? { signer } : {}) };
+  }
+
+  /**
+   * Enforce signature requirements; returns an error message when the card must be rejected
+   */
+  private checkSigner(
+    serverUrl: string,
+    agentCard: AgentCard | LegacyAgentCard,
+    signer: string | undefined
+  ): string | undefined {
+    const signed = (agentCard as AgentCard).x402Signature !== undefined;
+    if (signed && !signer) {
+      return 'Agent card signature is invalid';
+    }
+
+    const pinned = this.pinnedSigners.get(trimUrl(serverUrl));
+    const required = this.options.requireSignedCards || this.trustedSigners.size > 0 || pinned !== undefined;
+    if (!signer) {
+      return required ? 'Agent card is not signed' : undefined;
+    }
+    if (pinned !== undefined && signer.toLowerCase() !== pinned) {
+      return `Agent card signed by ${signer}, expected pinned signer ${pinned}`;
+    }
+    if (pinned === undefined && this.trustedSigners.size > 0 && !this.trustedSigners.has(signer.toLowerCase())) {
+      return `Agent card signer ${signer} is not trusted`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Fetch with a per-attempt timeout, retrying transient failures with exponential backoff
+   */
+  private async fetchWithRetry(url: string, headers: Record<string, string>): Promise<Response> {
+    let lastError: Error | undefined;
+    for (let attempt = 0; attempt <= this.options.retries; attempt++) {
+      if (attempt > 0) {
+        await sleep(this.options.retryDelayMs * 2 ** (attempt - 1));
+      }
+      try {
+        const response = await fetch(url, {
+          headers,
+          signal: AbortSignal.timeout(this.options.timeoutMs),
+        });
+        if (response.status !== 429 && response.status < 500) {
+          return response;
+        }
+        lastError = new NetworkError(
+          `Failed to fetch agent card: ${response.status} ${response.statusText}`,
+          url,
+          response.status,
+          response.status === 429 ? 'rate-limit' : 'server'
+        );
+      } catch (error) {
+        lastError = error instanceof Error && error.name === 'TimeoutError'
+          ? new NetworkError(`Timed out fetching agent card after ${this.options.timeoutMs}ms`, url, undefined, 'timeout')
+          : new NetworkError(
+            `Failed to fetch agent card: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            url,
+            undefined,
+            'network'
+          );
+      }
+    }
+    throw lastError ?? new NetworkError('Failed to fetch agent card', url);
+  }
+
+  /**
+   * Cache a result according to the response's Cache-Control and ETag headers
+   */
+  private store(url: string, response: Response, result: DiscoveredServices): void {
+    if (!this.options.cache) {
+      return;
+    }
+    const cacheControl = response.headers.get('cache-control') ?? '';
+    const etag = response.headers.get('etag') ?? this.cache.get(url)?.etag ?? undefined;
+    if (/no-store/i.test(cacheControl)) {
+      this.cache.delete(url);
+      return;
+    }
+    const maxAge = /no-cache/i.test(cacheControl)
+      ? 0
+      : Number(/max-age=(\d+)/i.exec(cacheControl)?.[1] ?? 0);
+    if (maxAge === 0 && !etag) {
+      this.cache.delete(url);
+      return;
+    }
+    this.cache.set(url, { etag, expiresAt: Date.now() + maxAge * 1000, result });
+  }
+
+  private failed(serverUrl: string, error: string): DiscoveredServices {
+    return {
+      serverUrl,
+      agentCard: { name: '', url: serverUrl, services: [] },
+      services: [],
+      invalidServices: [],
+      error,
+    };
+  }
+}
+
+function trimUrl(url: string): string {
+  return url.replace(/\/$/, '');
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -1,2 +1,17 @@
 export { X402Client, createX402Client } from './client.js';
-export type { X402ClientConfig } from './client.js';
+export type { X402ClientConfig, PaymentFetchOptions, PayParams } from './client.js';
+export {
+  EthersSigner,
+  EIP1193Signer,
+  RemoteSigner,
+  createSigner,
+  isEthersSigner,
+} from './signer.js';
+export type {
+  X402Signer,
+  EIP1193Provider,
+  RemoteSignerConfig,
+  SignerInput,
+} from './signer.js';
+export { ServiceDiscovery } from './discovery.js';
+export type { DiscoveryOptions } from './discovery.js';
@@ -0,0 +1,134 @@
+import { ethers } from 'ethers';
+import { ConfigurationError, SignatureError } from '../errors/index.js';
+import { splitTypedData } from '../shared/index.js';
+import type { X402TypedData } from '../shared/types.js';
+
+/**
+ * Signs EIP-712 payment authorizations (and their cancellations) on behalf of a payer
+ */
+export interface X402Signer {
+  getAddress(): Promise<string>;
+  signTypedData(typedData: X402TypedData): Promise<string>;
+}
+
+/**
+ * Minimal EIP-1193 provider (e.g. window.ethereum)
+ */
+export interface EIP1193Provider {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+}
+
+/**
+ * Remote signing callback (HSM, KMS, custody API)
+ */
+export interface RemoteSignerConfig {
+  address: string;
+  sign: (typedData: X402TypedData) => Promise<string>;
+}
+
+/**
+ * Anything that can be turned into an X402Signer
+ */
+export type SignerInput = X402Signer | ethers.Signer | EIP1193Provider | RemoteSignerConfig;
+
+/**
+ * Signer backed by an ethers Signer (Wallet, JsonRpcSigner, ...)
+ */
+export class EthersSigner implements X402Signer {
+  constructor(public readonly signer: ethers.Signer) {}
+
+  getAddress(): Promise<string> {
+    return this.signer.getAddress();
+  }
+
+  signTypedData(typedData: X402TypedData): Promise<string> {
+    const { domain, types, message } = splitTypedData(typedData);
+    return this.signer.signTypedData(domain, types, message);
+  }
+}
+
+/**
+ * Signer backed by an EIP-1193 provider using eth_signTypedData_v4
+ */
+export class EIP1193Signer implements X402Signer {
+  constructor(
+    private provider: EIP1193Provider,
+    private account?: string
+  ) {}
+
+  async getAddress(): Promise<string> {
+    if (this.account) {
+      return this.account;
+    }
+    const accounts = (await this.provider.request({ method: 'eth_requestAccounts' })) as string[];
+    if (!accounts || accounts.length === 0) {
+      throw new ConfigurationError('EIP-1193 provider returned no accounts', ['account']);
+    }
+    this.account = ethers.getAddress(accounts[0]);
+    return this.account;
+  }
+
+  async signTypedData(typedData: X402TypedData): Promise<string> {
+    const address = await this.getAddress();
+    const signature = await this.provider.request({
+      method: 'eth_signTypedData_v4',
+      params: [address, JSON.stringify(typedData)],
+    });
+    if (typeof signature !== 'string') {
+      throw new SignatureError('EIP-1193 provider returned an invalid signature', [
+        { reason: 'malformed-signature', message: 'eth_signTypedData_v4 did not return a string' },
+      ]);
+    }
+    return signature;
+  }
+}
+
+/**
+ * Signer that delegates to a remote signing callback
+ */
+export class RemoteSigner implements X402Signer {
+  constructor(private config: RemoteSignerConfig) {
+    if (!ethers.isAddress(config.address)) {
+      throw new ConfigurationError(`Invalid remote signer address: ${config.address}`, ['address']);
+    }
+  }
+
+  async getAddress(): Promise<string> {
+    return ethers.getAddress(this.config.address);
+  }
+
+  signTypedData(typedData: X402TypedData): Promise<string> {
+    return this.config.sign(typedData);
+  }
+}
+
+/**
+ * Check whether a value is an ethers Signer
+ */
+export function isEthersSigner(input: unknown): input is ethers.Signer {
+  if (input instanceof ethers.AbstractSigner) {
+    return true;
+  }
+  const candidate = input as Partial<ethers.Signer> | undefined;
+  return typeof candidate?.signTransaction === 'function'
+    && typeof candidate?.signTypedData === 'function';
+}
+
+/**
+ * Wrap an ethers Signer, EIP-1193 provider or remote signing callback as an X402Signer
+ */
+export function createSigner(input: SignerInput): X402Signer {
+  if (isEthersSigner(input)) {
+    return new EthersSigner(input);
+  }
+  if ('sign' in input && 'address' in input) {
+    return new RemoteSigner(input);
+  }
+  if ('request' in input && typeof input.request === 'function') {
+    return new EIP1193Signer(input);
+  }
+  if ('signTypedData' in input && typeof input.getAddress === 'function') {
+    return input;
+  }
+  throw new ConfigurationError('Unsupported signer input', ['signer']);
+}
@@ -1,3 +1,5 @@
+import type { DecodedRevert, RpcErrorKind, SignatureFailure } from '../shared/types.js';
+
 /**
  * Base error class for all x402 library errors
  */
@@ -31,7 +33,7 @@ export class ContractNotFoundError extends X402Error {
 export class SignatureError extends X402Error {
   constructor(
     message: string,
-    public readonly details?: string
+    public readonly details?: SignatureFailure[]
   ) {
     super(message, 'SIGNATURE_ERROR');
     this.name = 'SignatureError';
@@ -45,7 +47,8 @@ export class TransactionError extends X402Error {
   constructor(
     message: string,
     public readonly txHash?: string,
-    public readonly revertReason?: string
+    public readonly revertReason?: string,
+    public readonly revert?: DecodedRevert
   ) {
     super(message, 'TRANSACTION_ERROR');
     this.name = 'TransactionError';
@@ -59,7 +62,9 @@ export class NetworkError extends X402Error {
   constructor(
     message: string,
     public readonly url?: string,
-    public readonly status?: number
+    public readonly status?: number,
+    /** What kind of RPC failure caused the error, when known */
+    public readonly kind?: RpcErrorKind
   ) {
     super(message, 'NETWORK_ERROR');
     this.name = 'NetworkError';
@@ -78,3 +83,30 @@ export class ConfigurationError extends X402Error {
     this.name = 'ConfigurationError';
   }
 }
+
+/**
+ * Thrown when a signed payment does not match the service it targets
+ */
+export class PaymentValidationError extends X402Error {
+  constructor(
+    message: string,
+    public readonly issues: string[] = []
+  ) {
+    super(message, 'PAYMENT_VALIDATION_ERROR');
+    this.name = 'PaymentValidationError';
+  }
+}
+
+/**
+ * Thrown when an advertised service does not match what is deployed on-chain
+ */
+export class ServiceVerificationError extends X402Error {
+  constructor(
+    message: string,
+    public readonly serviceId: string,
+    public readonly issues: string[] = []
+  ) {
+    super(message, 'SERVICE_VERIFICATION_ERROR');
+    this.name = 'ServiceVerificationError';
+  }
+}
@@ -4,13 +4,56 @@
 
 export { X402Server, createX402Server } from './server/index.js';
 export type { X402ServerConfig } from './server/index.js';
+export { PaymentValidator, PaymentIndexer, InMemoryPaymentStore } from './server/index.js';
+export type {
+  PaymentRecord,
+  PaymentQuery,
+  PaymentSummary,
+  PaymentStore,
+  PaymentIndexerConfig,
+} from './server/index.js';
+export { JsonFileServiceStore } from './server/index.js';
+export type { ServiceStore, ServiceRegistrationResult } from './server/index.js';
+export { ServiceManifestLoader } from './server/index.js';
+export type { ServiceManifest, ServiceManifestFormat } from './server/index.js';
+export { OpenApiGenerator } from './server/index.js';
+export type { OpenApiDocument, OpenApiSource } from './server/index.js';
+export {
+  toFetchHandler,
+  toExpressHandler,
+  toFastifyPlugin,
+  toHonoMiddleware,
+  toNodeHandler,
+  X402_ROUTES,
+} from './server/index.js';
+export type {
+  FastifyInstanceLike,
+  FastifyRequestLike,
+  FastifyReplyLike,
+  HonoContextLike,
+} from './server/index.js';
 
 // ============================================================================
 // Client Exports
 // ============================================================================
 
 export { X402Client, createX402Client } from './client/index.js';
-export type { X402ClientConfig } from './client/index.js';
+export type { X402ClientConfig, PaymentFetchOptions, PayParams } from './client/index.js';
+export { ServiceDiscovery } from './client/index.js';
+export type { DiscoveryOptions } from './client/index.js';
+export {
+  EthersSigner,
+  EIP1193Signer,
+  RemoteSigner,
+  createSigner,
+  isEthersSigner,
+} from './client/index.js';
+export type {
+  X402Signer,
+  EIP1193Provider,
+  RemoteSignerConfig,
+  SignerInput,
+} from './client/index.js';
 
 // ============================================================================
 // Shared Types
@@ -19,26 +62,62 @@ export type { X402ClientConfig } from './client/index.js';
 export type {
   // Network types
   CronosNetwork,
+  NetworkName,
   NetworkSettings,
+  NetworkDefinition,
+  RpcErrorKind,
   // Hook types
+  BuiltInHookType,
   HookType,
   HookDataParams,
+  HookDefinition,
+  CustomHookData,
   NFTMintHookData,
   RewardPointsHookData,
   TransferSplitHookData,
   HookDataSchema,
+  JsonSchema,
   // Service types
   X402ServiceConfig,
   X402Service,
   AgentCard,
+  AgentCardSignature,
+  AgentCardSignatureScheme,
+  LegacyAgentCard,
+  AgentProvider,
+  AgentExtension,
+  AgentCapabilities,
+  AgentSkill,
+  X402ExtensionParams,
   DiscoveredServices,
+  ServiceValidationIssue,
   // Transaction types
   TransactionParams,
   PreparedTransaction,
   TransactionResult,
   TransactionEvent,
+  SettlementEventData,
+  SplitPayout,
+  SettlementOutcome,
   EIP712TypedData,
+  CancelAuthorizationTypedData,
+  X402TypedData,
+  PreparedCancellation,
+  AuthorizationState,
+  AuthorizationStatus,
   TokenInfo,
+  ServiceToken,
+  SerializedPreparedTransaction,
+  SettlementRequest,
+  PaymentRequirements,
+  PaymentRequiredResponse,
+  PaymentResponse,
+  SignatureFailureReason,
+  SignatureFailure,
+  SignatureVerificationResult,
+  DecodedRevert,
+  SimulationResult,
+  ServiceVerificationResult,
 } from './shared/types.js';
 
 // ============================================================================
@@ -47,8 +126,46 @@ export type {
 
 export { NetworkConfig, NETWORK_CONFIGS } from './shared/network-config.js';
 export { HookDataCodec } from './shared/hook-data-codec.js';
+export { HookRegistry } from './shared/hook-registry.js';
+export {
+  AgentCardCodec,
+  A2A_PROTOCOL_VERSION,
+  X402_EXTENSION_URI,
+} from './shared/agent-card.js';
 export { ContractReader } from './shared/contract-reader.js';
-export type { CommitmentParams } from './shared/contract-reader.js';
+export {
+  RpcErrorClassifier,
+  RateLimiter,
+  ResilientJsonRpcProvider,
+  createRpcProvider,
+} from './shared/rpc-provider.js';
+export type { RpcOptions } from './shared/rpc-provider.js';
+export { MULTICALL3_ADDRESS } from './shared/contract-reader.js';
+export type {
+  AuthorizationLogOptions,
+  CommitmentParams,
+  ContractReaderOptions,
+  ContractReaderStats,
+} from './shared/contract-reader.js';
+export { CommitmentCalculator, COMMITMENT_PREFIX } from './shared/commitment.js';
+export { SignatureVerifier, splitTypedData } from './shared/signature-verifier.js';
+export {
+  EventDecoder,
+  SETTLEMENT_ROUTER_EVENTS_ABI,
+  TOKEN_EVENTS_ABI,
+} from './shared/event-decoder.js';
+export {
+  RevertDecoder,
+  SETTLEMENT_ROUTER_ERRORS_ABI,
+  EIP3009_TOKEN_ERRORS_ABI,
+} from './shared/revert-decoder.js';
+export {
+  TransactionSerializer,
+  X402_VERSION,
+  X402_PAYMENT_HEADER,
+  X402_PAYMENT_RESPONSE_HEADER,
+} from './shared/transaction-serializer.js';
+export { SettlementExecutor } from './shared/settlement-executor.js';
 
 // ============================================================================
 // Error Classes
@@ -61,4 +178,6 @@ export {
   TransactionError,
   NetworkError,
   ConfigurationError,
+  PaymentValidationError,
+  ServiceVerificationError,
 } from './errors/index.js';
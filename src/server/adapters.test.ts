@@ -0,0 +1,271 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { ethers } from 'ethers';
+import { toExpressHandler, toFastifyPlugin, toFetchHandler, toHonoMiddleware, toNodeHandler, X402_ROUTES } from './adapters.js';
+import type { FastifyReplyLike, FastifyRequestLike } from './adapters.js';
+import { X402Server } from './server.js';
+import { ContractReader } from '../shared/index.js';
+
+const ROUTER = '0x1111111111111111111111111111111111111111';
+const HOOK = '0x2222222222222222222222222222222222222222';
+
+const server = new X402Server({ name: 'Test', url: 'http://localhost', network: 'cronos-testnet' });
+
+afterAll(() => {
+  vi.restoreAllMocks();
+});
+
+/**
+ * Server with a facilitator and one registered service, resolved without RPC calls
+ */
+async function settlingServer(): Promise<X402Server> {
+  vi.spyOn(ContractReader.prototype, 'getSettlementRouter').mockResolvedValue(ROUTER);
+  vi.spyOn(ContractReader.prototype, 'getTokenInfo').mockResolvedValue({ name: 'USD Coin', version: '2', decimals: 6 });
+  const settling = new X402Server({
+    name: 'Test',
+    url: 'http://localhost',
+    network: 'cronos-testnet',
+    facilitator: ethers.id('facilitator'),
+  });
+  await settling.addService({ id: 'nft-shop', title: 'NFT Shop', hookType: 'nft-mint', hookAddress: HOOK, network: 'cronos-testnet' });
+  return settling;
+}
+
+/**
+ * Host app fallback that echoes whatever body reaches it
+ */
+async function echo(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  res.writeHead(200, { 'content-type': 'text/plain' });
+  res.end(`app:${Buffer.concat(chunks).toString()}`);
+}
+
+type Listener = (req: IncomingMessage, res: ServerResponse) => void;
+
+/**
+ * Serve a listener on an ephemeral port for the duration of a describe block
+ */
+function serve(listener: () => Listener) {
+  // Node type packages of two versions are installed; pin the response to the one the adapters use
+  const http = createServer((req, res) => listener()(req, res as ServerResponse));
+  const state = { base: '' };
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => http.listen(0, '127.0.0.1', resolve));
+    state.base = `http://127.0.0.1:${(http.address() as AddressInfo).port}`;
+  });
+  afterAll(async () => {
+    await new Promise<void>((resolve) => http.close(() => resolve()));
+  });
+  return (path: string, init?: RequestInit) => fetch(`${state.base}${path}`, init);
+}
+
+const post = (body: unknown): RequestInit => ({
+  method: 'POST',
+  headers: { 'content-type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+describe('toFetchHandler', () => {
+  const handle = toFetchHandler(server);
+
+  it('serves the agent card and service list', async () => {
+    const card = await handle(new Request('http://localhost/.well-known/agent.json'));
+    expect(card.status).toBe(200);
+    expect(await card.json()).toMatchObject({ name: 'Test', services: [] });
+
+    const list = await handle(new Request('http://localhost/api/x402/services/'));
+    expect(await list.json()).toEqual({ services: [] });
+  });
+
+  it('answers unknown services and paths with 404', async () => {
+    expect((await handle(new Request('http://localhost/api/x402/services/missing'))).status).toBe(404);
+    expect((await handle(new Request('http://localhost/other'))).status).toBe(404);
+  });
+
+  it('rejects malformed percent-encoding in a service ID with 400', async () => {
+    const response = await handle(new Request('http://localhost/api/x402/services/%E0'));
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: 'Invalid service ID' });
+  });
+});
+
+describe('toHonoMiddleware', () => {
+  it('falls through to next() for other paths', async () => {
+    let called = false;
+    const middleware = toHonoMiddleware(server);
+    const result = await middleware({ req: { raw: new Request('http://localhost/other') } }, async () => {
+      called = true;
+    });
+    expect(result).toBeUndefined();
+    expect(called).toBe(true);
+  });
+});
+
+describe('toNodeHandler', () => {
+  let settling: X402Server;
+  beforeAll(async () => {
+    settling = await settlingServer();
+  });
+
+  describe('as a request listener', () => {
+    const request = serve(() => (req, res) => void toNodeHandler(settling)(req, res));
+
+    it('serves x402 routes and answers other paths with 404', async () => {
+      expect(await (await request('/api/x402/services/nft-shop')).json()).toMatchObject({ id: 'nft-shop' });
+      expect((await request('/other')).status).toBe(404);
+    });
+
+    it('reads the body of settle requests', async () => {
+      const response = await request('/api/x402/services/nft-shop/settle', post({}));
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ error: 'Invalid payment' });
+    });
+  });
+
+  describe('as middleware', () => {
+    const request = serve(() => (req, res) => {
+      void toNodeHandler(settling)(req, res, () => void echo(req, res));
+    });
+
+    it('leaves the body of an app route ending in /settle for the next handler', async () => {
+      const response = await request('/orders/42/settle', post({ amount: 5 }));
+      expect(await response.text()).toBe('app:{"amount":5}');
+      expect(await (await request('/orders/42/pay', post({ amount: 5 }))).text()).toBe('app:{"amount":5}');
+    });
+  });
+
+  describe('without a facilitator', () => {
+    const request = serve(() => (req, res) => {
+      void toNodeHandler(server)(req, res, () => void echo(req, res));
+    });
+
+    it('does not read settle bodies it will not handle', async () => {
+      const response = await request('/api/x402/services/nft-shop/settle', post({ amount: 5 }));
+      expect(await response.text()).toBe('app:{"amount":5}');
+    });
+  });
+});
+
+describe('toExpressHandler', () => {
+  let settling: X402Server;
+  beforeAll(async () => {
+    settling = await settlingServer();
+  });
+
+  /**
+   * Express app without a body parser: the adapter sees the raw node stream
+   */
+  const request = serve(() => (req, res) => {
+    const expressReq = Object.assign(req, { protocol: 'http', get: (name: string) => req.headers[name.toLowerCase()] });
+    const expressRes = Object.assign(res, {
+      status: (code: number) => Object.assign(res, { statusCode: code }),
+      send: (body: Buffer) => res.end(body),
+    });
+    void toExpressHandler(settling)(expressReq as never, expressRes as never, () => void echo(req, res));
+  });
+
+  it('serves x402 routes', async () => {
+    expect(await (await request('/api/x402/services')).json()).toMatchObject({ services: [{ id: 'nft-shop' }] });
+  });
+
+  it('reads the raw body of settle requests', async () => {
+    const response = await request('/api/x402/services/nft-shop/settle', post({}));
+    expect(await response.json()).toMatchObject({ error: 'Invalid payment' });
+  });
+
+  it('passes other routes to next() with their body intact', async () => {
+    expect(await (await request('/orders/42/settle', post({ amount: 5 }))).text()).toBe('app:{"amount":5}');
+    expect(await (await request('/orders/42/pay', post({ amount: 5 }))).text()).toBe('app:{"amount":5}');
+  });
+
+  it('reuses a body parsed by the app', async () => {
+    const sent: { status?: number; body?: string } = {};
+    const req = {
+      method: 'POST',
+      url: '/api/x402/services/nft-shop/settle',
+      protocol: 'http',
+      headers: { 'content-type': 'application/json' },
+      body: { prepared: null },
+      get: () => 'localhost',
+    };
+    const res = {
+      status: (code: number) => Object.assign(sent, { status: code }),
+      setHeader: () => undefined,
+      send: (body: Buffer) => Object.assign(sent, { body: body.toString() }),
+    };
+    await toExpressHandler(settling)(req as never, res as never, () => undefined);
+    expect(sent.status).toBe(400);
+    expect(JSON.parse(sent.body!)).toMatchObject({ error: 'Invalid payment' });
+  });
+});
+
+describe('toFastifyPlugin', () => {
+  type Handler = (request: FastifyRequestLike, reply: FastifyReplyLike) => Promise<unknown>;
+
+  async function register(target: X402Server, prefix?: string): Promise<Map<string, Handler>> {
+    const routes = new Map<string, Handler>();
+    await toFastifyPlugin(target)({
+      prefix,
+      route: ({ method, url, handler }) => routes.set(`${String(method)} ${url}`, handler),
+    });
+    return routes;
+  }
+
+  function reply() {
+    const sent: { status?: number; headers: Record<string, string>; body?: unknown } = { headers: {} };
+    const like: FastifyReplyLike = {
+      code: (status) => {
+        sent.status = status;
+        return like;
+      },
+      header: (name, value) => {
+        sent.headers[name] = value;
+        return like;
+      },
+      send: (payload) => {
+        sent.body = Buffer.isBuffer(payload) ? JSON.parse(payload.toString()) : payload;
+        return like;
+      },
+    };
+    return { sent, like };
+  }
+
+  it('registers every x402 route', async () => {
+    const routes = await register(server);
+    expect([...routes.keys()]).toEqual(X402_ROUTES.map((r) => `${r.method} ${r.path}`));
+  });
+
+  it('strips the plugin prefix before matching', async () => {
+    const routes = await register(await settlingServer(), '/pay');
+    const { sent, like } = reply();
+    await routes.get('GET /api/x402/services/:id')!(
+      { method: 'GET', url: '/pay/api/x402/services/nft-shop', headers: { host: 'localhost' } },
+      like
+    );
+    expect(sent.status).toBe(200);
+    expect(sent.body).toMatchObject({ id: 'nft-shop' });
+  });
+
+  it('passes the parsed body to settle', async () => {
+    const routes = await register(await settlingServer());
+    const { sent, like } = reply();
+    await routes.get('POST /api/x402/services/:id/settle')!(
+      { method: 'POST', url: '/api/x402/services/nft-shop/settle', headers: {}, body: { prepared: null } },
+      like
+    );
+    expect(sent.status).toBe(400);
+    expect(sent.body).toMatchObject({ error: 'Invalid payment' });
+  });
+
+  it('answers services it does not know with 404', async () => {
+    const routes = await register(server);
+    const { sent, like } = reply();
+    await routes.get('GET /api/x402/services/:id')!({ method: 'GET', url: '/api/x402/services/missing', headers: {} }, like);
+    expect(sent.status).toBe(404);
+  });
+});
@@ -0,0 +1,222 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type {
+  Request as ExpressRequest,
+  Response as ExpressResponse,
+  NextFunction,
+  RequestHandler,
+} from 'express';
+import type { X402Server } from './server.js';
+
+/**
+ * Routes served by X402Server.handleRequest, in Fastify/Express path syntax
+ */
+export const X402_ROUTES: ReadonlyArray<{ method: 'GET' | 'POST'; path: string }> = [
+  { method: 'GET', path: '/.well-known/agent.json' },
+  { method: 'GET', path: '/api/x402/services' },
+  { method: 'GET', path: '/api/x402/openapi.json' },
+  { method: 'GET', path: '/api/x402/services/:id' },
+  { method: 'GET', path: '/api/x402/services/:id/payments' },
+  { method: 'POST', path: '/api/x402/services/:id/settle' },
+];
+
+/**
+ * Minimal Fastify request shape used by the adapter
+ */
+export interface FastifyRequestLike {
+  method: string;
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+  protocol?: string;
+}
+
+/**
+ * Minimal Fastify reply shape used by the adapter
+ */
+export interface FastifyReplyLike {
+  code(statusCode: number): FastifyReplyLike;
+  header(name: string, value: string): FastifyReplyLike;
+  send(payload?: unknown): unknown;
+}
+
+/**
+ * Minimal Fastify instance shape used by the adapter
+ */
+export interface FastifyInstanceLike {
+  prefix?: string;
+  route(options: {
+    method: string | string[];
+    url: string;
+    handler: (request: FastifyRequestLike, reply: FastifyReplyLike) => Promise<unknown>;
+  }): unknown;
+}
+
+/**
+ * Minimal Hono context shape used by the adapter
+ */
+export interface HonoContextLike {
+  req: { raw: Request };
+}
+
+/**
+ * Fetch handler for edge runtimes (Cloudflare Workers, Deno, Bun, Next.js route handlers).
+ * Unmatched requests get a JSON 404
+ */
+export function toFetchHandler(server: X402Server): (request: Request) => Promise<Response> {
+  return async (request) => (await server.handleRequest(request)) ?? new Response(
+    JSON.stringify({ error: 'Not found', message: `No x402 route for ${new URL(request.url).pathname}` }),
+    { status: 404, headers: { 'content-type': 'application/json; charset=utf-8' } }
+  );
+}
+
+/**
+ * Express middleware; unmatched requests fall through to next()
+ */
+export function toExpressHandler(server: X402Server): RequestHandler {
+  return async (req: ExpressRequest, res: ExpressResponse, next: NextFunction) => {
+    try {
+      const base = `${req.protocol}://${req.get('host') ?? 'localhost'}`;
+      const url = new URL(req.url, base);
+      const body = req.body !== undefined ? encodeParsedBody(req.body) : await readNodeBody(server, req, url);
+      const response = await server.handleRequest(buildRequest(url, req.method, req.headers, body));
+      if (!response) {
+        next();
+        return;
+      }
+      res.status(response.status);
+      response.headers.forEach((value, name) => res.setHeader(name, value));
+      res.send(Buffer.from(await response.arrayBuffer()));
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Fastify plugin registering the x402 routes: `fastify.register(toFastifyPlugin(server))`
+ */
+export function toFastifyPlugin(server: X402Server): (fastify: FastifyInstanceLike) => Promise<void> {
+  return async (fastify) => {
+    const prefix = fastify.prefix ?? '';
+    for (const route of X402_ROUTES) {
+      fastify.route({
+        method: route.method,
+        url: route.path,
+        handler: async (request, reply) => {
+          // Route matching is done on paths relative to the plugin prefix
+          const url = new URL(request.url, `${request.protocol ?? 'http'}://${request.headers.host ?? 'localhost'}`);
+          if (prefix && url.pathname.startsWith(prefix)) {
+            url.pathname = url.pathname.slice(prefix.length) || '/';
+          }
+          const body = request.body !== undefined ? encodeParsedBody(request.body) : undefined;
+          const response = await server.handleRequest(buildRequest(url, request.method, request.headers, body));
+          if (!response) {
+            return reply.code(404).send({ error: 'Not found', message: `No x402 route for ${url.pathname}` });
+          }
+          reply.code(response.status);
+          response.headers.forEach((value, name) => reply.header(name, value));
+          return reply.send(Buffer.from(await response.arrayBuffer()));
+        },
+      });
+    }
+  };
+}
+
+/**
+ * Hono middleware: `app.use('*', toHonoMiddleware(server))`. Unmatched requests fall through
+ */
+export function toHonoMiddleware(
+  server: X402Server
+): (c: HonoContextLike, next: () => Promise<void>) => Promise<Response | void> {
+  return async (c, next) => {
+    const response = await server.handleRequest(c.req.raw);
+    if (response) {
+      return response;
+    }
+    return next();
+  };
+}
+
+/**
+ * node:http request listener: `http.createServer(toNodeHandler(server))`.
+ * Unmatched requests go to next() when given, otherwise get a JSON 404
+ */
+export function toNodeHandler(
+  server: X402Server
+): (req: IncomingMessage, res: ServerResponse, next?: (error?: unknown) => void) => Promise<void> {
+  const fallback = toFetchHandler(server);
+  return async (req, res, next) => {
+    try {
+      const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+      const request = buildRequest(url, req.method ?? 'GET', req.headers, await readNodeBody(server, req, url));
+      const response = next ? await server.handleRequest(request) : await fallback(request);
+      if (!response) {
+        next?.();
+        return;
+      }
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        headers[name] = value;
+      });
+      res.writeHead(response.status, headers);
+      res.end(Buffer.from(await response.arrayBuffer()));
+    } catch (error) {
+      if (next) {
+        next(error);
+        return;
+      }
+      res.writeHead(500, { 'content-type': 'application/json; charset=utf-8' });
+      res.end(JSON.stringify({ error: 'Internal error', message: error instanceof Error ? error.message : 'Unknown error' }));
+    }
+  };
+}
+
+function buildRequest(
+  url: URL,
+  method: string,
+  nodeHeaders: Record<string, string | string[] | undefined>,
+  body: string | Buffer | undefined
+): Request {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(nodeHeaders)) {
+    if (value !== undefined) {
+      headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+    }
+  }
+  const hasBody = body !== undefined && method !== 'GET' && method !== 'HEAD';
+  if (hasBody) {
+    // The body may have been re-encoded by a framework parser
+    headers.delete('content-length');
+  }
+  return new Request(url, { method, headers, body: hasBody ? body : undefined });
+}
+
+/**
+ * Re-encode a body that a framework already parsed
+ */
+function encodeParsedBody(body: unknown): string | Buffer {
+  if (typeof body === 'string' || Buffer.isBuffer(body)) {
+    return body;
+  }
+  return JSON.stringify(body);
+}
+
+/**
+ * Settle route served by X402Server.handleRequest
+ */
+const SETTLE_PATH = /^\/api\/x402\/services\/[^/]+\/settle\/?$/;
+
+/**
+ * Read the raw body of a settle request the server will handle. Other requests
+ * are left unread so handlers they fall through to can still consume the stream
+ */
+async function readNodeBody(server: X402Server, req: IncomingMessage, url: URL): Promise<Buffer | undefined> {
+  if (req.method !== 'POST' || !SETTLE_PATH.test(url.pathname) || !server.hasFacilitator() || req.readableEnded) {
+    return undefined;
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return chunks.length > 0 ? Buffer.concat(chunks) : undefined;
+}
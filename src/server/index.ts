@@ -1,2 +1,31 @@
 export { X402Server, createX402Server } from './server.js';
 export type { X402ServerConfig } from './server.js';
+export { PaymentValidator } from './payment-validator.js';
+export { PaymentIndexer, InMemoryPaymentStore } from './payment-indexer.js';
+export type {
+  PaymentRecord,
+  PaymentQuery,
+  PaymentSummary,
+  PaymentStore,
+  PaymentIndexerConfig,
+} from './payment-indexer.js';
+export { JsonFileServiceStore } from './service-store.js';
+export type { ServiceStore, ServiceRegistrationResult } from './service-store.js';
+export { ServiceManifestLoader } from './service-manifest.js';
+export type { ServiceManifest, ServiceManifestFormat } from './service-manifest.js';
+export { OpenApiGenerator } from './openapi.js';
+export type { OpenApiDocument, OpenApiSource } from './openapi.js';
+export {
+  toFetchHandler,
+  toExpressHandler,
+  toFastifyPlugin,
+  toHonoMiddleware,
+  toNodeHandler,
+  X402_ROUTES,
+} from './adapters.js';
+export type {
+  FastifyInstanceLike,
+  FastifyRequestLike,
+  FastifyReplyLike,
+  HonoContextLike,
+} from './adapters.js';
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { Ajv2020 } from 'ajv/dist/2020.js';
+import { ethers } from 'ethers';
+import { OpenApiGenerator } from './openapi.js';
+import type { OpenApiDocument } from './openapi.js';
+import { X402Server } from './server.js';
+import { ContractReader } from '../shared/index.js';
+import type { JsonSchema } from '../shared/types.js';
+
+const ROUTER = '0x1111111111111111111111111111111111111111';
+const HOOK = '0x2222222222222222222222222222222222222222';
+const NFT = '0x3333333333333333333333333333333333333333';
+const PAY_TO = '0x4444444444444444444444444444444444444444';
+
+/**
+ * Check a payload against a schema from the document, resolving its component references.
+ * Returns the validation errors, or undefined when the payload matches
+ */
+function schemaErrors(document: OpenApiDocument, schema: unknown, payload: unknown): string | undefined {
+  const ajv = new Ajv2020({ strict: false });
+  const validate = ajv.compile({ ...(schema as JsonSchema), components: document.components });
+  return validate(payload) ? undefined : ajv.errorsText(validate.errors);
+}
+
+function responseSchema(document: OpenApiDocument, path: string): unknown {
+  const get = document.paths[path].get as {
+    responses: Record<number, { content: Record<string, { schema: unknown }> }>;
+  };
+  return get.responses[200].content['application/json'].schema;
+}
+
+describe('OpenApiGenerator', () => {
+  let server: X402Server;
+  let document: OpenApiDocument;
+  const get = async (path: string) => (await server.handleRequest(new Request(`http://localhost${path}`)))!.json();
+
+  beforeAll(async () => {
+    vi.spyOn(ContractReader.prototype, 'getSettlementRouter').mockResolvedValue(ROUTER);
+    vi.spyOn(ContractReader.prototype, 'getTokenInfo').mockResolvedValue({ name: 'USD Coin', version: '2', decimals: 6 });
+    server = new X402Server({
+      name: 'Test',
+      url: 'http://localhost',
+      network: 'cronos-testnet',
+      facilitator: ethers.id('facilitator'),
+    });
+    await server.addService({
+      id: 'nft-shop',
+      title: 'NFT Shop',
+      hookType: 'nft-mint',
+      hookAddress: HOOK,
+      network: 'cronos-testnet',
+      supportingContracts: { nftContract: NFT },
+      defaults: { paymentAmount: '1', facilitatorFee: '0.01', payTo: PAY_TO },
+    });
+    await server.addService({ id: 'tips', title: 'Tips', hookType: 'transfer-split', hookAddress: HOOK, network: 'cronos-testnet' });
+    document = (await get('/api/x402/openapi.json')) as OpenApiDocument;
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each(['nft-shop', 'tips'])('describes the live service response for %s', async (id) => {
+    const payload = await get(`/api/x402/services/${id}`);
+    expect(schemaErrors(document, responseSchema(document, `/api/x402/services/${id}`), payload)).toBeUndefined();
+  });
+
+  it('describes the live service list', async () => {
+    const payload = await get('/api/x402/services');
+    expect(schemaErrors(document, responseSchema(document, '/api/x402/services'), payload)).toBeUndefined();
+  });
+
+  it('pins each service path to its own service', async () => {
+    const payload = await get('/api/x402/services/tips');
+    expect(schemaErrors(document, responseSchema(document, '/api/x402/services/nft-shop'), payload))
+      .toContain('data/id must be equal to constant');
+  });
+
+  it('references the hook parameter schema from both service operations', () => {
+    const service = document.paths['/api/x402/services/nft-shop'].get as Record<string, unknown>;
+    const settle = document.paths['/api/x402/services/nft-shop/settle'].post as Record<string, unknown>;
+    const hookData = { abiType: expect.any(String), paramsSchema: { $ref: '#/components/schemas/HookParams.nft-mint' } };
+    expect(service['x-x402-hook-data']).toEqual(hookData);
+    expect(settle['x-x402-hook-data']).toEqual(hookData);
+    expect(document.components.schemas['HookParams.nft-mint']).toEqual(OpenApiGenerator.hookParamsSchema('nft-mint'));
+  });
+
+  it('leaves out payment routes without an indexer', () => {
+    expect(document.paths['/api/x402/services/nft-shop/payments']).toBeUndefined();
+  });
+});
@@ -0,0 +1,388 @@
+import { HookDataCodec } from '../shared/index.js';
+import type { HookType, JsonSchema, X402Service } from '../shared/types.js';
+
+/**
+ * OpenAPI 3.1 document
+ */
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description?: string };
+  servers: Array<{ url: string }>;
+  paths: Record<string, Record<string, unknown>>;
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+/**
+ * What an OpenAPI document is generated from
+ */
+export interface OpenApiSource {
+  name: string;
+  description?: string;
+  version: string;
+  /** Base URL the routes are served under */
+  url: string;
+  /** Services to document; disabled services should be left out */
+  services: X402Service[];
+  /** Document POST /api/x402/services/:id/settle (facilitator configured) */
+  settlement: boolean;
+  /** Document GET /api/x402/services/:id/payments (indexer configured) */
+  payments: boolean;
+}
+
+const ADDRESS: JsonSchema = { $ref: '#/components/schemas/Address' };
+const AMOUNT: JsonSchema = { $ref: '#/components/schemas/Amount' };
+const UINT: JsonSchema = { type: 'string', pattern: '^\\d+$', description: 'Unsigned integer in base units' };
+const HEX: JsonSchema = { type: 'string', pattern: '^0x[0-9a-fA-F]*$' };
+
+/**
+ * Schemas shared by every document, mirroring the JSON the server returns
+ */
+const COMPONENT_SCHEMAS: Record<string, JsonSchema> = {
+  Address: { type: 'string', pattern: '^0x[0-9a-fA-F]{40}$' },
+  Amount: { type: 'string', pattern: '^\\d+(\\.\\d+)?$', description: 'Decimal token amount, e.g. "0.25"' },
+  Error: {
+    type: 'object',
+    required: ['error', 'message'],
+    properties: {
+      error: { type: 'string' },
+      message: { type: 'string' },
+      issues: { type: 'array', items: { type: 'string' } },
+      details: {},
+      revertReason: { type: 'string' },
+    },
+  },
+  HookDataSchema: {
+    type: 'object',
+    required: ['hookType', 'abiType', 'description', 'example'],
+    properties: {
+      hookType: { type: 'string' },
+      abiType: { type: 'string', description: 'Solidity ABI type of the encoded hookData' },
+      description: { type: 'string' },
+      example: { type: 'string' },
+      paramsSchema: { type: 'object', description: 'JSON Schema of the hook data parameters' },
+    },
+  },
+  ServiceToken: {
+    type: 'object',
+    required: ['address', 'name', 'version', 'decimals'],
+    properties: {
+      address: ADDRESS,
+      name: { type: 'string' },
+      version: { type: 'string' },
+      decimals: { type: 'integer' },
+    },
+  },
+  X402Service: {
+    type: 'object',
+    required: ['id', 'title', 'hookType', 'hookAddress', 'network', 'settlementRouter', 'usdcAddress', 'chainId'],
+    properties: {
+      id: { type: 'string' },
+      title: { type: 'string' },
+      description: { type: 'string' },
+      hookType: { type: 'string' },
+      hookAddress: ADDRESS,
+      network: { type: 'string' },
+      tokenAddress: ADDRESS,
+      supportingContracts: { type: 'object', additionalProperties: ADDRESS },
+      defaults: {
+        type: 'object',
+        required: ['paymentAmount', 'facilitatorFee', 'payTo'],
+        properties: {
+          paymentAmount: AMOUNT,
+          facilitatorFee: { type: 'string', description: 'Decimal token amount; empty for no fee' },
+          payTo: ADDRESS,
+        },
+      },
+      enabled: { type: 'boolean' },
+      settlementRouter: ADDRESS,
+      usdcAddress: ADDRESS,
+      token: { $ref: '#/components/schemas/ServiceToken' },
+      chainId: { type: 'integer' },
+    },
+  },
+  ServiceResponse: {
+    allOf: [
+      { $ref: '#/components/schemas/X402Service' },
+      {
+        type: 'object',
+        required: ['hookDataSchema'],
+        properties: { hookDataSchema: { $ref: '#/components/schemas/HookDataSchema' } },
+      },
+    ],
+  },
+  ServiceList: {
+    type: 'object',
+    required: ['services'],
+    properties: { services: { type: 'array', items: { $ref: '#/components/schemas/ServiceResponse' } } },
+  },
+  AgentCard: {
+    type: 'object',
+    description: 'A2A agent card with the x402 extension',
+    required: ['name', 'description', 'url', 'version', 'capabilities', 'skills', 'services'],
+    properties: {
+      name: { type: 'string' },
+      description: { type: 'string' },
+      url: { type: 'string' },
+      version: { type: 'string' },
+      capabilities: { type: 'object' },
+      skills: { type: 'array', items: { type: 'object' } },
+      services: { type: 'array', items: { $ref: '#/components/schemas/X402Service' } },
+      x402Signature: {
+        type: 'object',
+        required: ['scheme', 'signer', 'signature'],
+        properties: {
+          scheme: { enum: ['eip191', 'eip712'] },
+          signer: ADDRESS,
+          signature: HEX,
+          chainId: { type: 'integer' },
+        },
+      },
+    },
+  },
+  PreparedTransaction: {
+    type: 'object',
+    required: ['typedData', 'routerAddress', 'nonce', 'salt', 'hookData', 'params'],
+    properties: {
+      typedData: { type: 'object', description: 'EIP-712 typed data the payer signed' },
+      routerAddress: ADDRESS,
+      nonce: HEX,
+      salt: HEX,
+      hookData: { ...HEX, description: 'ABI-encoded hook data' },
+      params: {
+        type: 'object',
+        required: ['token', 'from', 'value', 'validAfter', 'validBefore', 'payTo', 'facilitatorFee', 'hook'],
+        properties: {
+          token: ADDRESS,
+          from: ADDRESS,
+          value: UINT,
+          validAfter: { type: 'integer' },
+          validBefore: { type: 'integer' },
+          payTo: ADDRESS,
+          facilitatorFee: UINT,
+          hook: ADDRESS,
+        },
+      },
+    },
+  },
+  SettlementRequest: {
+    type: 'object',
+    required: ['prepared', 'signature'],
+    properties: {
+      prepared: { $ref: '#/components/schemas/PreparedTransaction' },
+      signature: { ...HEX, description: 'EIP-3009 authorization signature' },
+    },
+  },
+  TransactionResult: {
+    type: 'object',
+    required: ['success', 'txHash', 'blockNumber', 'events'],
+    properties: {
+      success: { type: 'boolean' },
+      txHash: HEX,
+      blockNumber: { type: 'integer' },
+      events: { type: 'array', items: { type: 'object' } },
+      error: { type: 'string' },
+      settlement: { type: 'object' },
+      mintedTokenId: UINT,
+      rewardPoints: UINT,
+      splits: { type: 'array', items: { type: 'object' } },
+    },
+  },
+  PaymentHistory: {
+    type: 'object',
+    required: ['serviceId', 'summary', 'payments'],
+    properties: {
+      serviceId: { type: 'string' },
+      summary: {
+        type: 'object',
+        required: ['count', 'totalAmount', 'totalFees'],
+        properties: { count: { type: 'integer' }, totalAmount: UINT, totalFees: UINT },
+      },
+      payments: { type: 'array', items: { type: 'object' } },
+    },
+  },
+};
+
+/**
+ * Generates OpenAPI 3.1 documents for an X402Server's routes
+ */
+export class OpenApiGenerator {
+  /**
+   * Build a document covering the discovery routes and one set of paths per service
+   */
+  static generate(source: OpenApiSource): OpenApiDocument {
+    const schemas: Record<string, JsonSchema> = { ...COMPONENT_SCHEMAS };
+    const paths: OpenApiDocument['paths'] = {
+      '/.well-known/agent.json': {
+        get: operation('getAgentCard', 'A2A agent card', 'AgentCard'),
+      },
+      '/api/x402/services': {
+        get: operation('listServices', 'List registered services', 'ServiceList'),
+      },
+      '/api/x402/openapi.json': {
+        get: {
+          operationId: 'getOpenApiDocument',
+          summary: 'This OpenAPI document',
+          responses: { 200: { description: 'OpenAPI 3.1 document', content: json({ type: 'object' }) } },
+        },
+      },
+    };
+
+    const operationIds = new Set<string>();
+    for (const service of source.services) {
+      const hookSchema = `HookParams.${service.hookType.replace(/[^A-Za-z0-9._-]/g, '_')}`;
+      schemas[hookSchema] ??= this.hookParamsSchema(service.hookType);
+      const { abiType } = HookDataCodec.getSchema(service.hookType);
+      const suffix = uniqueSuffix(service.id, operationIds);
+      const basePath = `/api/x402/services/${encodeURIComponent(service.id)}`;
+      const x402 = {
+        hookType: service.hookType,
+        hookAddress: service.hookAddress,
+        settlementRouter: service.settlementRouter,
+        token: service.token?.address ?? service.usdcAddress,
+        chainId: service.chainId,
+        network: service.network,
+      };
+
+      paths[basePath] = {
+        get: {
+          operationId: `getService${suffix}`,
+          summary: service.title,
+          ...(service.description ? { description: service.description } : {}),
+          tags: [service.id],
+          'x-x402-service': x402,
+          'x-x402-hook-data': { abiType, paramsSchema: ref(hookSchema) },
+          responses: {
+            200: {
+              description: 'Service details with its hookData schema',
+              content: json({
+                allOf: [
+                  ref('ServiceResponse'),
+                  {
+                    type: 'object',
+                    properties: {
+                      id: { const: service.id },
+                      hookType: { const: service.hookType },
+                      // paramsSchema is the JSON Schema document itself, described by HookDataSchema
+                      hookDataSchema: { type: 'object', properties: { hookType: { const: service.hookType } } },
+                    },
+                  },
+                ],
+              }),
+            },
+            404: errorResponse('Service not found'),
+          },
+        },
+      };
+
+      if (source.payments) {
+        paths[`${basePath}/payments`] = {
+          get: {
+            operationId: `getPayments${suffix}`,
+            summary: `Indexed payments to ${service.title}`,
+            tags: [service.id],
+            parameters: [
+              queryParameter('payer', ADDRESS),
+              queryParameter('fromBlock', { type: 'integer', minimum: 0 }),
+              queryParameter('toBlock', { type: 'integer', minimum: 0 }),
+              queryParameter('limit', { type: 'integer', minimum: 0, default: 100 }),
+              queryParameter('offset', { type: 'integer', minimum: 0 }),
+            ],
+            responses: {
+              200: { description: 'Payments and totals', content: json(ref('PaymentHistory')) },
+              404: errorResponse('Service not found'),
+            },
+          },
+        };
+      }
+
+      if (source.settlement) {
+        paths[`${basePath}/settle`] = {
+          post: {
+            operationId: `settle${suffix}`,
+            summary: `Relay a signed payment for ${service.title}`,
+            description: `prepared.hookData is the ABI encoding (${abiType}) of ${hookSchema}.`,
+            tags: [service.id],
+            'x-x402-service': x402,
+            'x-x402-hook-data': { abiType, paramsSchema: ref(hookSchema) },
+            requestBody: { required: true, content: json(ref('SettlementRequest')) },
+            responses: {
+              200: { description: 'Settlement transaction result', content: json(ref('TransactionResult')) },
+              400: errorResponse('Malformed request, invalid payment or invalid signature'),
+              404: errorResponse('Service not found'),
+              502: errorResponse('Settlement transaction failed'),
+              503: errorResponse('Service disabled'),
+            },
+          },
+        };
+      }
+    }
+
+    return {
+      openapi: '3.1.0',
+      info: {
+        title: source.name,
+        version: source.version,
+        ...(source.description ? { description: source.description } : {}),
+      },
+      servers: [{ url: source.url }],
+      paths,
+      components: { schemas },
+    };
+  }
+
+  /**
+   * JSON Schema of a hook's parameters; hooks without a declared schema fall back to their example
+   */
+  static hookParamsSchema(hookType: HookType): JsonSchema {
+    const { description, example, paramsSchema } = HookDataCodec.getSchema(hookType);
+    if (paramsSchema) {
+      return { description, ...paramsSchema };
+    }
+    let parsed: unknown = example;
+    try {
+      parsed = JSON.parse(example);
+    } catch {
+      // Free-text example; published as is
+    }
+    return typeof parsed === 'object' && parsed !== null
+      ? { type: 'object', description, examples: [parsed] }
+      : { description, examples: [parsed] };
+  }
+}
+
+function ref(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+function json(schema: JsonSchema) {
+  return { 'application/json': { schema } };
+}
+
+function operation(operationId: string, summary: string, schema: string) {
+  return { operationId, summary, responses: { 200: { description: summary, content: json(ref(schema)) } } };
+}
+
+function errorResponse(description: string) {
+  return { description, content: json(ref('Error')) };
+}
+
+function queryParameter(name: string, schema: JsonSchema) {
+  return { name, in: 'query', required: false, schema };
+}
+
+/**
+ * Turn a service ID into an operationId suffix, e.g. "nft-shop" -> "NftShop", kept unique
+ */
+function uniqueSuffix(id: string, seen: Set<string>): string {
+  const base = id
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('') || 'Service';
+  let suffix = base;
+  for (let n = 2; seen.has(suffix); n++) {
+    suffix = `${base}${n}`;
+  }
+  seen.add(suffix);
+  return suffix;
+}
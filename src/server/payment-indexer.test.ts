@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { InMemoryPaymentStore, PaymentIndexer } from './payment-indexer.js';
+import { EventDecoder } from '../shared/index.js';
+import type { X402Service } from '../shared/types.js';
+import type { X402Server } from './server.js';
+
+const ROUTER = '0x1111111111111111111111111111111111111111';
+const SHARED_HOOK = '0x2222222222222222222222222222222222222222';
+const TOKEN = '0x3333333333333333333333333333333333333333';
+const MERCHANT = '0x4444444444444444444444444444444444444444';
+const OTHER_MERCHANT = '0x5555555555555555555555555555555555555555';
+const PAYER = '0x6666666666666666666666666666666666666666';
+
+function service(id: string, payTo?: string): X402Service {
+  return {
+    id,
+    title: id,
+    hookType: 'transfer-split',
+    hookAddress: SHARED_HOOK,
+    network: 'cronos-testnet',
+    settlementRouter: ROUTER,
+    usdcAddress: TOKEN,
+    chainId: 338,
+    ...(payTo ? { defaults: { paymentAmount: '1', facilitatorFee: '0', payTo } } : {}),
+  };
+}
+
+/**
+ * Settled log from the router at the given block
+ */
+function settledLog(blockNumber: number, payTo: string, amount = 1_000_000n): ethers.Log {
+  const iface = EventDecoder.getInterface();
+  const { topics, data } = iface.encodeEventLog('Settled', [
+    ethers.id(`context-${blockNumber}-${payTo}`),
+    PAYER,
+    TOKEN,
+    amount,
+    SHARED_HOOK,
+    ethers.id('salt'),
+    payTo,
+    0n,
+  ]);
+  return {
+    address: ROUTER,
+    topics,
+    data,
+    blockNumber,
+    transactionHash: ethers.id(`tx-${blockNumber}-${payTo}`),
+    index: 0,
+  } as unknown as ethers.Log;
+}
+
+/**
+ * X402Server stand-in whose provider serves a fixed set of logs
+ */
+function fakeServer(services: X402Service[], logs: ethers.Log[], head: { block: number }) {
+  const provider = {
+    getBlockNumber: async () => head.block,
+    getLogs: async (filter: { fromBlock: number; toBlock: number }) =>
+      logs.filter((l) => l.blockNumber >= filter.fromBlock && l.blockNumber <= filter.toBlock),
+    getTransactionReceipt: async () => null,
+  };
+  return {
+    getContractReader: () => ({ getProvider: () => provider }),
+    listServices: () => services,
+  } as unknown as X402Server;
+}
+
+describe('PaymentIndexer', () => {
+  it('only attributes settlements through a shared hook to the matching merchant', async () => {
+    const logs = [settledLog(10, MERCHANT), settledLog(11, OTHER_MERCHANT, 5_000_000n)];
+    const indexer = new PaymentIndexer(fakeServer([service('shop', MERCHANT)], logs, { block: 20 }), {
+      fromBlock: 0,
+    });
+
+    expect(await indexer.sync()).toBe(1);
+    expect(await indexer.getSummary('shop')).toEqual({ count: 1, totalAmount: 1_000_000n, totalFees: 0n });
+  });
+
+  it('attributes unmatched settlements to a service without payment defaults', async () => {
+    const services = [service('shop', MERCHANT), service('open')];
+    const logs = [settledLog(10, MERCHANT), settledLog(11, OTHER_MERCHANT)];
+    const indexer = new PaymentIndexer(fakeServer(services, logs, { block: 20 }), { fromBlock: 0 });
+
+    await indexer.sync();
+    expect((await indexer.getPayments({ serviceId: 'shop' })).map((p) => p.blockNumber)).toEqual([10]);
+    expect((await indexer.getPayments({ serviceId: 'open' })).map((p) => p.blockNumber)).toEqual([11]);
+  });
+
+  it('backfills services registered after earlier syncs from fromBlock', async () => {
+    const services = [service('shop', MERCHANT)];
+    const head = { block: 20 };
+    const logs = [settledLog(10, MERCHANT), settledLog(15, OTHER_MERCHANT), settledLog(22, OTHER_MERCHANT)];
+    const store = new InMemoryPaymentStore();
+    const indexer = new PaymentIndexer(fakeServer(services, logs, head), { fromBlock: 5, batchSize: 4, store });
+
+    expect(await indexer.sync()).toBe(1);
+    expect(await store.getCursor('shop')).toBe(20);
+
+    services.push(service('late', OTHER_MERCHANT));
+    head.block = 25;
+    expect(await indexer.sync()).toBe(2);
+    expect((await indexer.getPayments({ serviceId: 'late' })).map((p) => p.blockNumber)).toEqual([22, 15]);
+    expect(await indexer.getSummary('shop')).toMatchObject({ count: 1 });
+    expect(await store.getCursor('shop')).toBe(25);
+    expect(await store.getCursor('late')).toBe(25);
+  });
+});
@@ -0,0 +1,312 @@
+import { ethers } from 'ethers';
+import { NetworkError } from '../errors/index.js';
+import { EventDecoder, RpcErrorClassifier } from '../shared/index.js';
+import type { SettlementOutcome, X402Service } from '../shared/types.js';
+import type { X402Server } from './server.js';
+
+/**
+ * Settlement indexed for a registered service
+ */
+export interface PaymentRecord {
+  serviceId: string;
+  txHash: string;
+  blockNumber: number;
+  logIndex: number;
+  contextKey: string;
+  payer: string;
+  token: string;
+  amount: bigint;
+  facilitatorFee: bigint;
+  payTo: string;
+  hook: string;
+  /** Hook outcome decoded from the same transaction */
+  outcome: Omit<SettlementOutcome, 'settlement'>;
+}
+
+/**
+ * Filter for querying indexed payments
+ */
+export interface PaymentQuery {
+  serviceId?: string;
+  payer?: string;
+  fromBlock?: number;
+  toBlock?: number;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Revenue totals for a set of payments
+ */
+export interface PaymentSummary {
+  count: number;
+  totalAmount: bigint;
+  totalFees: bigint;
+}
+
+/**
+ * Storage backend for indexed payments
+ */
+export interface PaymentStore {
+  save(records: PaymentRecord[]): Promise<void>;
+  query(query: PaymentQuery): Promise<PaymentRecord[]>;
+  /** Last block fully indexed for a service */
+  getCursor(serviceId: string): Promise<number | undefined>;
+  setCursor(serviceId: string, blockNumber: number): Promise<void>;
+}
+
+/**
+ * Payment indexer configuration
+ */
+export interface PaymentIndexerConfig {
+  store?: PaymentStore;
+  /** First block to scan for a service with no cursor yet, including services registered later; defaults to the current head */
+  fromBlock?: number;
+  /** Blocks per eth_getLogs request */
+  batchSize?: number;
+  /** Blocks to wait before indexing, to avoid reorgs */
+  confirmations?: number;
+  /** Polling interval for start() */
+  pollIntervalMs?: number;
+  /** Called when a background sync fails */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * In-memory payment store (default)
+ */
+export class InMemoryPaymentStore implements PaymentStore {
+  private records: Map<string, PaymentRecord> = new Map();
+  private cursors: Map<string, number> = new Map();
+
+  async save(records: PaymentRecord[]): Promise<void> {
+    for (const record of records) {
+      this.records.set(`${record.txHash}:${record.logIndex}`, record);
+    }
+  }
+
+  async query(query: PaymentQuery): Promise<PaymentRecord[]> {
+    const payer = query.payer?.toLowerCase();
+    const matches = Array.from(this.records.values())
+      .filter((r) => !query.serviceId || r.serviceId === query.serviceId)
+      .filter((r) => !payer || r.payer.toLowerCase() === payer)
+      .filter((r) => query.fromBlock === undefined || r.blockNumber >= query.fromBlock)
+      .filter((r) => query.toBlock === undefined || r.blockNumber <= query.toBlock)
+      .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex);
+
+    const offset = query.offset ?? 0;
+    return matches.slice(offset, query.limit === undefined ? undefined : offset + query.limit);
+  }
+
+  async getCursor(serviceId: string): Promise<number | undefined> {
+    return this.cursors.get(serviceId);
+  }
+
+  async setCursor(serviceId: string, blockNumber: number): Promise<void> {
+    this.cursors.set(serviceId, blockNumber);
+  }
+}
+
+/**
+ * Indexer that scans and follows SettlementRouter events for every service on an X402Server
+ */
+export class PaymentIndexer {
+  private store: PaymentStore;
+  private config: PaymentIndexerConfig;
+  private timer?: ReturnType<typeof setInterval>;
+  private syncing?: Promise<number>;
+
+  constructor(
+    private server: X402Server,
+    config: PaymentIndexerConfig = {}
+  ) {
+    this.config = config;
+    this.store = config.store ?? new InMemoryPaymentStore();
+  }
+
+  /**
+   * Index all settlements up to the confirmed head. Returns the number of new records
+   */
+  sync(): Promise<number> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = undefined;
+      });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * Follow new blocks by polling
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    const poll = () => {
+      this.sync().catch((error: Error) => this.config.onError?.(error));
+    };
+    poll();
+    this.timer = setInterval(poll, this.config.pollIntervalMs ?? 15000);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Stop following new blocks
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Query indexed payments
+   */
+  getPayments(query: PaymentQuery = {}): Promise<PaymentRecord[]> {
+    return this.store.query(query);
+  }
+
+  /**
+   * Total revenue and fees for a service
+   */
+  async getSummary(serviceId: string): Promise<PaymentSummary> {
+    const payments = await this.store.query({ serviceId });
+    return payments.reduce<PaymentSummary>(
+      (summary, p) => ({
+        count: summary.count + 1,
+        totalAmount: summary.totalAmount + p.amount,
+        totalFees: summary.totalFees + p.facilitatorFee,
+      }),
+      { count: 0, totalAmount: 0n, totalFees: 0n }
+    );
+  }
+
+  private async runSync(): Promise<number> {
+    const provider = this.server.getContractReader().getProvider();
+    const services = this.server.listServices();
+    if (services.length === 0) {
+      return 0;
+    }
+
+    try {
+      const head = (await provider.getBlockNumber()) - (this.config.confirmations ?? 0);
+      // Each service keeps its own cursor, so services registered later are backfilled
+      const starts = new Map<string, number>();
+      for (const service of services) {
+        const cursor = await this.store.getCursor(service.id);
+        starts.set(service.id, cursor !== undefined ? cursor + 1 : this.config.fromBlock ?? head);
+      }
+      const start = Math.min(...starts.values());
+      if (start > head) {
+        return 0;
+      }
+
+      const iface = EventDecoder.getInterface();
+      const settledTopic = iface.getEvent('Settled')!.topicHash;
+      const batchSize = this.config.batchSize ?? 2000;
+      let indexed = 0;
+
+      for (let from = start; from <= head; from += batchSize) {
+        const to = Math.min(from + batchSize - 1, head);
+        const pending = services.filter((s) => starts.get(s.id)! <= to);
+        const routers = Array.from(new Set(pending.map((s) => s.settlementRouter.toLowerCase())));
+        const logs = await provider.getLogs({
+          address: routers,
+          topics: [settledTopic],
+          fromBlock: Math.max(from, Math.min(...pending.map((s) => starts.get(s.id)!))),
+          toBlock: to,
+        });
+
+        const records: PaymentRecord[] = [];
+        for (const log of logs) {
+          // Match against every service so a shared hook's payTo still resolves correctly,
+          // then skip blocks the matched service has already indexed
+          const record = await this.toRecord(provider, services, log);
+          if (record && record.blockNumber >= starts.get(record.serviceId)!) {
+            records.push(record);
+          }
+        }
+        await this.store.save(records);
+        for (const service of pending) {
+          await this.store.setCursor(service.id, to);
+        }
+        indexed += records.length;
+      }
+
+      return indexed;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new NetworkError(
+          `Failed to index payments: ${error.message}`,
+          undefined,
+          undefined,
+          RpcErrorClassifier.classify(error)
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Match a Settled log to a service and decode the hook outcome from its receipt
+   */
+  private async toRecord(
+    provider: ethers.Provider,
+    services: X402Service[],
+    log: ethers.Log
+  ): Promise<PaymentRecord | undefined> {
+    const [settledEvent] = EventDecoder.decodeLogs([log]);
+    const { settlement } = EventDecoder.summarize([settledEvent], { router: log.address });
+    if (!settlement) {
+      return undefined;
+    }
+
+    const service = this.matchService(services, log.address, settlement.hook, settlement.payTo);
+    if (!service) {
+      return undefined;
+    }
+
+    const receipt = await provider.getTransactionReceipt(log.transactionHash);
+    const txEvents = receipt ? EventDecoder.decodeLogs(receipt.logs) : [];
+    const { settlement: _ignored, ...outcome } = EventDecoder.summarize(txEvents, {
+      router: log.address,
+      hook: service.hookAddress,
+    });
+
+    return {
+      serviceId: service.id,
+      txHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      logIndex: log.index,
+      contextKey: settlement.contextKey,
+      payer: settlement.payer,
+      token: settlement.token,
+      amount: settlement.amount,
+      facilitatorFee: settlement.facilitatorFee,
+      payTo: settlement.payTo,
+      hook: settlement.hook,
+      outcome,
+    };
+  }
+
+  /**
+   * Services sharing a hook are told apart by their payTo address. A settlement whose
+   * payTo matches no service is only attributed to a service without payment defaults;
+   * otherwise it belongs to someone else using the same hook and is dropped
+   */
+  private matchService(
+    services: X402Service[],
+    router: string,
+    hook: string,
+    payTo: string
+  ): X402Service | undefined {
+    const candidates = services.filter(
+      (s) => s.settlementRouter.toLowerCase() === router.toLowerCase()
+        && s.hookAddress.toLowerCase() === hook.toLowerCase()
+    );
+    return candidates.find((s) => s.defaults?.payTo.toLowerCase() === payTo.toLowerCase())
+      ?? candidates.find((s) => !s.defaults);
+  }
+}
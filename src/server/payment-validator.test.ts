@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { PaymentValidator } from './payment-validator.js';
+import { X402Server } from './server.js';
+import { PaymentValidationError } from '../errors/index.js';
+import { HookDataCodec, TransactionSerializer } from '../shared/index.js';
+import type { PreparedTransaction, X402Service } from '../shared/types.js';
+
+const ROUTER = '0x1111111111111111111111111111111111111111';
+const HOOK = '0x2222222222222222222222222222222222222222';
+const TOKEN = '0x3333333333333333333333333333333333333333';
+const PAY_TO = '0x4444444444444444444444444444444444444444';
+const PAYER = '0x5555555555555555555555555555555555555555';
+const NFT = '0x6666666666666666666666666666666666666666';
+const OTHER = '0x7777777777777777777777777777777777777777';
+
+const SERVICE: X402Service = {
+  id: 'nft-shop',
+  title: 'NFT Shop',
+  hookType: 'nft-mint',
+  hookAddress: HOOK,
+  network: 'cronos-testnet',
+  settlementRouter: ROUTER,
+  usdcAddress: TOKEN,
+  token: { address: TOKEN, name: 'USD Coin', version: '2', decimals: 6 },
+  chainId: 338,
+  defaults: { paymentAmount: '1', facilitatorFee: '0.01', payTo: PAY_TO },
+};
+
+function prepared(): PreparedTransaction {
+  const nonce = ethers.id('nonce');
+  return {
+    typedData: {
+      types: {
+        EIP712Domain: [],
+        TransferWithAuthorization: [],
+      },
+      primaryType: 'TransferWithAuthorization',
+      domain: { name: 'USD Coin', version: '2', chainId: 338, verifyingContract: TOKEN },
+      message: {
+        from: PAYER,
+        to: ROUTER,
+        value: '1000000',
+        validAfter: '0',
+        validBefore: '1900000000',
+        nonce,
+      },
+    },
+    routerAddress: ROUTER,
+    nonce,
+    salt: ethers.id('salt'),
+    hookData: HookDataCodec.encode('nft-mint', { type: 'nft-mint', nftContract: NFT }),
+    params: {
+      token: TOKEN,
+      from: PAYER,
+      value: 1_000_000n,
+      validAfter: 0,
+      validBefore: 1_900_000_000,
+      payTo: PAY_TO,
+      facilitatorFee: 10_000n,
+      hook: HOOK,
+    },
+  };
+}
+
+describe('PaymentValidator', () => {
+  it('accepts a payment matching the service', () => {
+    expect(PaymentValidator.validate(SERVICE, prepared())).toEqual([]);
+  });
+
+  it.each<[string, (p: PreparedTransaction) => void, string]>([
+    ['router', (p) => { p.routerAddress = OTHER; }, `routerAddress must be ${ROUTER}`],
+    ['hook', (p) => { p.params.hook = OTHER; }, `params.hook must be ${HOOK}`],
+    ['token', (p) => { p.params.token = OTHER; }, `params.token must be ${TOKEN}`],
+    ['verifying contract', (p) => { p.typedData.domain.verifyingContract = OTHER; },
+      `typedData.domain.verifyingContract must be ${TOKEN}`],
+    ['message recipient', (p) => { p.typedData.message.to = OTHER; }, `typedData.message.to must be ${ROUTER}`],
+    ['chain ID', (p) => { p.typedData.domain.chainId = 25; }, 'typedData.domain.chainId must be 338, got 25'],
+    ['payer', (p) => { p.params.from = OTHER; }, `typedData.message.from must be ${OTHER}`],
+    ['signed value', (p) => { p.typedData.message.value = '2000000'; },
+      'typedData.message.value does not match params.value'],
+    ['signed nonce', (p) => { p.typedData.message.nonce = ethers.ZeroHash; },
+      'typedData.message.nonce does not match nonce'],
+    ['signed validity', (p) => { p.typedData.message.validBefore = '1'; },
+      'typedData.message validity window does not match params'],
+    ['payTo', (p) => { p.params.payTo = OTHER; }, `params.payTo must be ${PAY_TO}`],
+    ['amount below minimum', (p) => {
+      p.params.value = 999_999n;
+      p.typedData.message.value = '999999';
+    }, 'params.value must be at least 1000000, got 999999'],
+    ['fee below minimum', (p) => { p.params.facilitatorFee = 9_999n; },
+      'params.facilitatorFee must be at least 10000, got 9999'],
+    ['fee above value', (p) => { p.params.facilitatorFee = 1_000_001n; },
+      'params.facilitatorFee cannot exceed params.value'],
+    ['hookData', (p) => { p.hookData = '0x'; }, 'hookData is not valid for nft-mint'],
+  ])('reports a mismatched %s', (_, mutate, issue) => {
+    const payment = prepared();
+    mutate(payment);
+    expect(PaymentValidator.validate(SERVICE, payment)).toEqual([expect.stringContaining(issue)]);
+  });
+
+  it('compares addresses case-insensitively', () => {
+    const payment = prepared();
+    payment.params.payTo = PAY_TO.toLowerCase();
+    payment.routerAddress = ethers.getAddress(ROUTER);
+    expect(PaymentValidator.validate(SERVICE, payment)).toEqual([]);
+  });
+
+  it('rejects payments for services without merchant terms', () => {
+    expect(PaymentValidator.validate({ ...SERVICE, defaults: undefined }, prepared())).toEqual([
+      'service nft-shop has no payment defaults to settle against',
+    ]);
+  });
+
+  it('throws PaymentValidationError with every issue', () => {
+    const payment = prepared();
+    payment.routerAddress = OTHER;
+    payment.params.payTo = OTHER;
+    expect(() => PaymentValidator.assertValid(SERVICE, payment)).toThrow(PaymentValidationError);
+    try {
+      PaymentValidator.assertValid(SERVICE, payment);
+    } catch (error) {
+      expect((error as PaymentValidationError).issues).toHaveLength(2);
+    }
+  });
+});
+
+describe('X402Server.settlePayment', () => {
+  const server = new X402Server({
+    name: 'Test',
+    url: 'http://localhost',
+    network: 'cronos-testnet',
+    facilitator: ethers.id('facilitator'),
+  });
+
+  it.each<[string, (p: Record<string, unknown>) => void, string]>([
+    ['empty typedData', (p) => { p.typedData = {}; }, 'typedData.domain must be an object'],
+    ['missing message', (p) => { delete record(p.typedData).message; }, 'typedData.message must be an object'],
+    ['non-numeric validBefore', (p) => {
+      record(p.params).validBefore = 'abc';
+      record(record(p.typedData).message).validBefore = 'NaN';
+    }, 'Invalid timestamp for params.validBefore'],
+    ['negative validAfter', (p) => { record(p.params).validAfter = -1; }, 'Invalid timestamp for params.validAfter'],
+  ])('rejects %s as a malformed payment before any RPC call', async (_, mutate, issue) => {
+    const body: Record<string, unknown> = JSON.parse(JSON.stringify(TransactionSerializer.serialize(prepared())));
+    mutate(body);
+    const settle = server.settlePayment(SERVICE, { prepared: body as never, signature: '0x' });
+    await expect(settle).rejects.toThrow(PaymentValidationError);
+    await expect(settle).rejects.toMatchObject({ issues: [issue] });
+  });
+
+  it('refuses to settle for a service without merchant terms', async () => {
+    const request = { prepared: TransactionSerializer.serialize(prepared()), signature: '0x' };
+    await expect(server.settlePayment({ ...SERVICE, defaults: undefined }, request)).rejects.toMatchObject({
+      issues: ['service nft-shop has no payment defaults to settle against'],
+    });
+  });
+});
+
+/**
+ * Narrow a field of a JSON body to an object so tests can corrupt it
+ */
+function record(value: unknown): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    throw new Error('Expected a JSON object');
+  }
+  return value as Record<string, unknown>;
+}
@@ -0,0 +1,105 @@
+import { ethers } from 'ethers';
+import { ConfigurationError, PaymentValidationError } from '../errors/index.js';
+import { HookDataCodec } from '../shared/index.js';
+import type { PreparedTransaction, ServiceToken, X402Service } from '../shared/types.js';
+
+/**
+ * Checks signed payments against the registered service they claim to pay for
+ */
+export class PaymentValidator {
+  /**
+   * Collect every mismatch between a prepared transaction and a service
+   */
+  static validate(service: X402Service, prepared: PreparedTransaction): string[] {
+    const issues: string[] = [];
+    const { params, typedData } = prepared;
+    const { message, domain } = typedData;
+    const token = this.serviceToken(service);
+
+    const expectAddress = (field: string, actual: string, expected: string) => {
+      if (!this.sameAddress(actual, expected)) {
+        issues.push(`${field} must be ${expected}, got ${actual}`);
+      }
+    };
+
+    // Contracts the authorization is bound to
+    expectAddress('routerAddress', prepared.routerAddress, service.settlementRouter);
+    expectAddress('params.hook', params.hook, service.hookAddress);
+    expectAddress('params.token', params.token, token.address);
+    expectAddress('typedData.domain.verifyingContract', domain.verifyingContract, token.address);
+    expectAddress('typedData.message.to', message.to, service.settlementRouter);
+    if (Number(domain.chainId) !== service.chainId) {
+      issues.push(`typedData.domain.chainId must be ${service.chainId}, got ${domain.chainId}`);
+    }
+
+    // Signed message must describe the same transfer as the call parameters
+    expectAddress('typedData.message.from', message.from, params.from);
+    if (message.value !== params.value.toString()) {
+      issues.push('typedData.message.value does not match params.value');
+    }
+    if (message.nonce !== prepared.nonce) {
+      issues.push('typedData.message.nonce does not match nonce');
+    }
+    if (message.validAfter !== params.validAfter.toString()
+      || message.validBefore !== params.validBefore.toString()) {
+      issues.push('typedData.message validity window does not match params');
+    }
+
+    // Merchant terms; without them any payTo, amount and fee would be relayed
+    if (!service.defaults) {
+      issues.push(`service ${service.id} has no payment defaults to settle against`);
+    } else {
+      expectAddress('params.payTo', params.payTo, service.defaults.payTo);
+
+      const minAmount = ethers.parseUnits(service.defaults.paymentAmount, token.decimals);
+      if (params.value < minAmount) {
+        issues.push(`params.value must be at least ${minAmount}, got ${params.value}`);
+      }
+
+      const minFee = ethers.parseUnits(service.defaults.facilitatorFee || '0', token.decimals);
+      if (params.facilitatorFee < minFee) {
+        issues.push(`params.facilitatorFee must be at least ${minFee}, got ${params.facilitatorFee}`);
+      }
+    }
+    if (params.facilitatorFee > params.value) {
+      issues.push('params.facilitatorFee cannot exceed params.value');
+    }
+
+    try {
+      HookDataCodec.decode(service.hookType, prepared.hookData);
+    } catch (error) {
+      issues.push(`hookData is not valid for ${service.hookType}: ${
+        error instanceof Error ? error.message : 'decode failed'
+      }`);
+    }
+
+    return issues;
+  }
+
+  /**
+   * Throw a PaymentValidationError if the prepared transaction does not match the service
+   */
+  static assertValid(service: X402Service, prepared: PreparedTransaction): void {
+    const issues = this.validate(service, prepared);
+    if (issues.length > 0) {
+      throw new PaymentValidationError(
+        `Payment does not match service ${service.id}`,
+        issues
+      );
+    }
+  }
+
+  /**
+   * Get the payment token a registered service was resolved with
+   */
+  static serviceToken(service: X402Service): ServiceToken {
+    if (!service.token) {
+      throw new ConfigurationError(`Service ${service.id} has no resolved payment token`, ['token']);
+    }
+    return service.token;
+  }
+
+  private static sameAddress(a: string, b: string): boolean {
+    return typeof a === 'string' && typeof b === 'string' && a.toLowerCase() === b.toLowerCase();
+  }
+}
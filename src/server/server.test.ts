@@ -0,0 +1,391 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ethers } from 'ethers';
+import { X402Server, type X402ServerConfig } from './server.js';
+import type { ServiceStore } from './service-store.js';
+import { ConfigurationError, TransactionError } from '../errors/index.js';
+import {
+  ContractReader,
+  HookDataCodec,
+  NetworkConfig,
+  SettlementExecutor,
+  splitTypedData,
+  TransactionSerializer,
+  X402_PAYMENT_HEADER,
+  X402_PAYMENT_RESPONSE_HEADER,
+  X402_VERSION,
+} from '../shared/index.js';
+import type { PreparedTransaction, TransactionResult, X402Service, X402ServiceConfig } from '../shared/types.js';
+
+const ROUTER = '0x1111111111111111111111111111111111111111';
+const HOOK = '0x2222222222222222222222222222222222222222';
+const NFT = '0x3333333333333333333333333333333333333333';
+const PAY_TO = '0x4444444444444444444444444444444444444444';
+const TOKEN = NetworkConfig.getConfig('cronos-testnet').usdcAddress;
+const payer = new ethers.Wallet(ethers.id('payer'));
+
+const RESULT: TransactionResult = { success: true, txHash: ethers.id('tx'), blockNumber: 42, events: [], mintedTokenId: 7n };
+
+/**
+ * Server with a facilitator and one nft-mint service, resolved without RPC calls
+ */
+async function createServer(config: Partial<X402ServerConfig> = {}): Promise<X402Server> {
+  vi.spyOn(ContractReader.prototype, 'getSettlementRouter').mockResolvedValue(ROUTER);
+  vi.spyOn(ContractReader.prototype, 'getTokenInfo').mockResolvedValue({ name: 'USD Coin', version: '2', decimals: 6 });
+  const server = new X402Server({
+    name: 'Test',
+    url: 'http://localhost',
+    network: 'cronos-testnet',
+    facilitator: ethers.id('facilitator'),
+    ...config,
+  });
+  await server.addService({
+    id: 'nft-shop',
+    title: 'NFT Shop',
+    hookType: 'nft-mint',
+    hookAddress: HOOK,
+    network: 'cronos-testnet',
+    supportingContracts: { nftContract: NFT },
+    defaults: { paymentAmount: '1', facilitatorFee: '0.01', payTo: PAY_TO },
+  });
+  return server;
+}
+
+/**
+ * Payment for a service, signed by the payer
+ */
+async function signedPayment(service: X402Service, value = 1_000_000n): Promise<string> {
+  const nonce = ethers.id('nonce');
+  const prepared: PreparedTransaction = {
+    typedData: {
+      types: {
+        EIP712Domain: [
+          { name: 'name', type: 'string' },
+          { name: 'version', type: 'string' },
+          { name: 'chainId', type: 'uint256' },
+          { name: 'verifyingContract', type: 'address' },
+        ],
+        TransferWithAuthorization: [
+          { name: 'from', type: 'address' },
+          { name: 'to', type: 'address' },
+          { name: 'value', type: 'uint256' },
+          { name: 'validAfter', type: 'uint256' },
+          { name: 'validBefore', type: 'uint256' },
+          { name: 'nonce', type: 'bytes32' },
+        ],
+      },
+      primaryType: 'TransferWithAuthorization',
+      domain: { name: 'USD Coin', version: '2', chainId: service.chainId, verifyingContract: TOKEN },
+      message: {
+        from: payer.address,
+        to: service.settlementRouter,
+        value: value.toString(),
+        validAfter: '0',
+        validBefore: '4000000000',
+        nonce,
+      },
+    },
+    routerAddress: service.settlementRouter,
+    nonce,
+    salt: ethers.id('salt'),
+    hookData: HookDataCodec.encode('nft-mint', { type: 'nft-mint', nftContract: NFT }),
+    params: {
+      token: TOKEN,
+      from: payer.address,
+      value,
+      validAfter: 0,
+      validBefore: 4_000_000_000,
+      payTo: PAY_TO,
+      facilitatorFee: 10_000n,
+      hook: service.hookAddress,
+    },
+  };
+  const { domain, types, message } = splitTypedData(prepared.typedData);
+  const signature = await payer.signTypedData(domain, types, message);
+  return TransactionSerializer.encodePaymentHeader(prepared, signature);
+}
+
+/**
+ * Run the middleware against a stub Express request and response
+ */
+async function call(server: X402Server, serviceId: string, header?: string) {
+  const sent: { status?: number; body?: Record<string, unknown>; headers: Record<string, string> } = { headers: {} };
+  const req = {
+    originalUrl: '/premium',
+    get: (name: string) => (name.toLowerCase() === X402_PAYMENT_HEADER.toLowerCase() ? header : undefined),
+  };
+  const res = {
+    locals: {} as Record<string, unknown>,
+    status(status: number) {
+      sent.status = status;
+      return this;
+    },
+    json(body: Record<string, unknown>) {
+      sent.body = body;
+      return this;
+    },
+    setHeader(name: string, value: string) {
+      sent.headers[name] = value;
+      return this;
+    },
+  };
+  const next = vi.fn();
+  await server.paymentRequired(serviceId)(req as never, res as never, next);
+  return { ...sent, next, locals: res.locals };
+}
+
+describe('X402Server.paymentRequired', () => {
+  let server: X402Server;
+  let service: X402Service;
+
+  beforeEach(async () => {
+    server = await createServer();
+    service = server.getService('nft-shop')!;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('requires a facilitator', () => {
+    const readOnly = new X402Server({ name: 'Test', url: 'http://localhost', network: 'cronos-testnet' });
+    expect(() => readOnly.paymentRequired('nft-shop')).toThrow(ConfigurationError);
+  });
+
+  it('answers unpaid requests with 402 and the payment requirements', async () => {
+    const { status, body, next } = await call(server, 'nft-shop');
+    expect(status).toBe(402);
+    expect(next).not.toHaveBeenCalled();
+    expect(body).toMatchObject({
+      x402Version: X402_VERSION,
+      error: 'Payment required',
+      accepts: [{
+        scheme: 'x402-settlement-router',
+        resource: '/premium',
+        serviceId: 'nft-shop',
+        settlementRouter: ROUTER,
+        hookAddress: HOOK,
+        token: TOKEN,
+        chainId: 338,
+        maxAmountRequired: '1000000',
+        facilitatorFee: '0.01',
+        payTo: PAY_TO,
+        hookDataSchema: { hookType: 'nft-mint' },
+      }],
+    });
+  });
+
+  it('answers a header that is not a payment with 402', async () => {
+    const { status, body } = await call(server, 'nft-shop', 'not-base64!');
+    expect(status).toBe(402);
+    expect(body).toMatchObject({ error: 'Invalid payment header', accepts: [expect.any(Object)] });
+  });
+
+  it('rejects a payment made out for another service', async () => {
+    const settle = vi.spyOn(SettlementExecutor.prototype, 'settle');
+    const header = await signedPayment({ ...service, settlementRouter: NFT });
+    const { status, body, next } = await call(server, 'nft-shop', header);
+
+    expect(status).toBe(402);
+    expect(body).toMatchObject({ error: 'Invalid payment', issues: expect.arrayContaining([`routerAddress must be ${ROUTER}, got ${NFT}`]) });
+    expect(settle).not.toHaveBeenCalled();
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('rejects a payment below the service price', async () => {
+    const { status, body } = await call(server, 'nft-shop', await signedPayment(service, 999_999n));
+    expect(status).toBe(402);
+    expect(body).toMatchObject({ issues: ['params.value must be at least 1000000, got 999999'] });
+  });
+
+  it('settles a valid payment, then calls next() with the X-PAYMENT-RESPONSE header', async () => {
+    const settle = vi.spyOn(SettlementExecutor.prototype, 'settle').mockResolvedValue(RESULT);
+    const { status, headers, next, locals } = await call(server, 'nft-shop', await signedPayment(service));
+
+    expect(status).toBeUndefined();
+    expect(settle).toHaveBeenCalledTimes(1);
+    expect(next).toHaveBeenCalledWith();
+    expect(locals.x402Payment).toBe(RESULT);
+    expect(TransactionSerializer.decodeHeader(headers[X402_PAYMENT_RESPONSE_HEADER])).toEqual({
+      success: true,
+      txHash: RESULT.txHash,
+      blockNumber: 42,
+      network: 'cronos-testnet',
+    });
+  });
+
+  it('answers a failed settlement with 402 and the revert reason', async () => {
+    vi.spyOn(SettlementExecutor.prototype, 'settle')
+      .mockRejectedValue(new TransactionError('Transaction failed: nonce used', undefined, 'nonce used'));
+    const { status, body, next } = await call(server, 'nft-shop', await signedPayment(service));
+    expect(status).toBe(402);
+    expect(body).toMatchObject({ error: 'Settlement failed', revertReason: 'nonce used' });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('answers unknown services with 500 and disabled services with 503', async () => {
+    expect((await call(server, 'missing')).status).toBe(500);
+    await server.setServiceEnabled('nft-shop', false);
+    expect(await call(server, 'nft-shop')).toMatchObject({ status: 503, body: { error: 'Service unavailable' } });
+  });
+
+  it('answers services without payment defaults with 500', async () => {
+    await server.updateService('nft-shop', { defaults: undefined });
+    expect(await call(server, 'nft-shop')).toMatchObject({ status: 500, body: { message: 'Service nft-shop has no payment defaults' } });
+  });
+});
+
+/**
+ * Service store that keeps every save in memory
+ */
+class MemoryStore implements ServiceStore {
+  saves: X402ServiceConfig[][] = [];
+
+  constructor(private services: X402ServiceConfig[] = []) {}
+
+  async load(): Promise<X402ServiceConfig[]> {
+    return this.services;
+  }
+
+  async save(services: X402ServiceConfig[]): Promise<void> {
+    this.services = services;
+    this.saves.push(services);
+  }
+
+  get saved(): X402ServiceConfig[] {
+    return this.services;
+  }
+}
+
+function get(server: X402Server, path: string): Promise<Response | undefined> {
+  return server.handleRequest(new Request(`http://localhost${path}`));
+}
+
+describe('X402Server service lifecycle', () => {
+  const BROKEN_HOOK = '0x5555555555555555555555555555555555555555';
+  let store: MemoryStore;
+  let server: X402Server;
+
+  beforeEach(async () => {
+    store = new MemoryStore();
+    server = await createServer({ serviceStore: store });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('persists added services without their resolved on-chain fields', () => {
+    expect(store.saved).toEqual([expect.objectContaining({ id: 'nft-shop', hookAddress: HOOK })]);
+    expect(store.saved[0]).not.toHaveProperty('settlementRouter');
+    expect(store.saved[0]).not.toHaveProperty('token');
+    expect(store.saved[0]).not.toHaveProperty('chainId');
+  });
+
+  it('re-resolves an updated service on-chain and persists the change', async () => {
+    const newRouter = '0x6666666666666666666666666666666666666666';
+    vi.mocked(ContractReader.prototype.getSettlementRouter).mockResolvedValue(newRouter);
+
+    const updated = await server.updateService('nft-shop', { title: 'Renamed' });
+    expect(updated).toMatchObject({ id: 'nft-shop', title: 'Renamed', settlementRouter: newRouter });
+    expect(server.getService('nft-shop')).toBe(updated);
+    expect(store.saved).toEqual([expect.objectContaining({ id: 'nft-shop', title: 'Renamed' })]);
+  });
+
+  it('keeps the previous service when an update no longer resolves', async () => {
+    const before = server.getService('nft-shop');
+    vi.mocked(ContractReader.prototype.getSettlementRouter).mockRejectedValue(new Error('no contract at hook'));
+
+    await expect(server.updateService('nft-shop', { hookAddress: BROKEN_HOOK })).rejects.toThrow('no contract at hook');
+    expect(server.getService('nft-shop')).toBe(before);
+    expect(store.saves).toHaveLength(1);
+  });
+
+  it('refuses to update or toggle a service that is not registered', async () => {
+    await expect(server.updateService('missing', { title: 'x' })).rejects.toThrow(ConfigurationError);
+    await expect(server.setServiceEnabled('missing', false)).rejects.toThrow(ConfigurationError);
+  });
+
+  it('removes services and persists the removal', async () => {
+    expect(await server.removeService('nft-shop')).toBe(true);
+    expect(server.getService('nft-shop')).toBeUndefined();
+    expect(store.saved).toEqual([]);
+
+    expect(await server.removeService('nft-shop')).toBe(false);
+    expect(store.saves).toHaveLength(2);
+  });
+
+  it('hides disabled services from discovery and refuses to settle for them', async () => {
+    await server.setServiceEnabled('nft-shop', false);
+    expect(server.isServiceEnabled('nft-shop')).toBe(false);
+    expect(server.listServices()).toHaveLength(1);
+    expect(server.listEnabledServices()).toEqual([]);
+    expect(store.saved).toEqual([expect.objectContaining({ id: 'nft-shop', enabled: false })]);
+
+    expect(await (await get(server, '/api/x402/services'))!.json()).toEqual({ services: [] });
+    expect((await get(server, '/api/x402/services/nft-shop'))!.status).toBe(404);
+
+    const settle = vi.spyOn(SettlementExecutor.prototype, 'settle');
+    const response = await server.handleRequest(new Request('http://localhost/api/x402/services/nft-shop/settle', {
+      method: 'POST',
+      body: '{}',
+    }));
+    expect(response!.status).toBe(503);
+    expect(await response!.json()).toMatchObject({ error: 'Service unavailable' });
+    expect(settle).not.toHaveBeenCalled();
+
+    await server.setServiceEnabled('nft-shop', true);
+    expect(server.listEnabledServices()).toHaveLength(1);
+    expect((await get(server, '/api/x402/services/nft-shop'))!.status).toBe(200);
+  });
+
+  it('requires a service store to restore from', async () => {
+    const storeless = await createServer();
+    await expect(storeless.restoreServices()).rejects.toThrow(ConfigurationError);
+  });
+
+  it('restores stored services and keeps the ones that fail in later saves', async () => {
+    const [stored] = store.saved;
+    const broken: X402ServiceConfig = { ...stored, id: 'broken', hookAddress: BROKEN_HOOK };
+    vi.mocked(ContractReader.prototype.getSettlementRouter)
+      .mockImplementation(async (hook) => {
+        if (hook === BROKEN_HOOK) throw new Error('no contract at hook');
+        return ROUTER;
+      });
+    const restoring = new MemoryStore([stored, broken]);
+    const restored = new X402Server({
+      name: 'Test',
+      url: 'http://localhost',
+      network: 'cronos-testnet',
+      serviceStore: restoring,
+    });
+
+    expect(await restored.restoreServices()).toEqual([
+      { id: 'nft-shop', success: true },
+      { id: 'broken', success: false, error: 'no contract at hook' },
+    ]);
+    expect(restored.listServices().map((s) => s.id)).toEqual(['nft-shop']);
+
+    await restored.setServiceEnabled('nft-shop', false);
+    expect(restoring.saved.map((s) => s.id)).toEqual(['nft-shop', 'broken']);
+
+    expect(await restored.removeService('broken')).toBe(true);
+    expect(restoring.saved.map((s) => s.id)).toEqual(['nft-shop']);
+  });
+
+  it('reverifies services and reports the ones that no longer resolve', async () => {
+    await server.addService({ ...store.saved[0], id: 'second', hookAddress: BROKEN_HOOK });
+    const before = server.getService('second');
+    vi.mocked(ContractReader.prototype.getSettlementRouter)
+      .mockImplementation(async (hook) => {
+        if (hook === BROKEN_HOOK) throw new Error('no contract at hook');
+        return NFT;
+      });
+
+    expect(await server.reverifyServices()).toEqual([
+      { id: 'nft-shop', success: true },
+      { id: 'second', success: false, error: 'no contract at hook' },
+    ]);
+    expect(server.getService('nft-shop')!.settlementRouter).toBe(NFT);
+    expect(server.getService('second')).toBe(before);
+  });
+});
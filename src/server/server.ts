@@ -1,16 +1,59 @@
-import type { Router, Request, Response } from 'express';
-import { ConfigurationError } from '../errors/index.js';
+import type {
+  Router,
+  Request as ExpressRequest,
+  Response as ExpressResponse,
+  NextFunction,
+  RequestHandler,
+} from 'express';
+import { ethers } from 'ethers';
+import {
+  ConfigurationError,
+  PaymentValidationError,
+  SignatureError,
+  TransactionError,
+} from '../errors/index.js';
 import {
   NetworkConfig,
   ContractReader,
   HookDataCodec,
+  HookRegistry,
+  AgentCardCodec,
+  SettlementExecutor,
+  SignatureVerifier,
+  TransactionSerializer,
+  X402_VERSION,
+  X402_PAYMENT_HEADER,
+  X402_PAYMENT_RESPONSE_HEADER,
+  A2A_PROTOCOL_VERSION,
+  X402_EXTENSION_URI,
 } from '../shared/index.js';
 import type {
-  CronosNetwork,
+  NetworkName,
+  NetworkDefinition,
   X402ServiceConfig,
   X402Service,
   AgentCard,
+  AgentProvider,
+  AgentCardSignatureScheme,
+  X402ExtensionParams,
+  SettlementRequest,
+  PreparedTransaction,
+  TransactionResult,
+  PaymentRequirements,
+  PaymentRequiredResponse,
+  PaymentResponse,
 } from '../shared/types.js';
+import { PaymentValidator } from './payment-validator.js';
+import { PaymentIndexer } from './payment-indexer.js';
+import type { ContractReaderOptions, RpcOptions } from '../shared/index.js';
+import type { PaymentIndexerConfig, PaymentQuery } from './payment-indexer.js';
+import { JsonFileServiceStore } from './service-store.js';
+import type { ServiceStore, ServiceRegistrationResult } from './service-store.js';
+import { ServiceManifestLoader } from './service-manifest.js';
+import type { ServiceManifest } from './service-manifest.js';
+import { toExpressHandler } from './adapters.js';
+import { OpenApiGenerator } from './openapi.js';
+import type { OpenApiDocument } from './openapi.js';
 
 /**
  * Server configuration
@@ -19,8 +62,28 @@ export interface X402ServerConfig {
   name: string;
   description?: string;
   url: string;
-  network: CronosNetwork;
+  /** Known network name or a custom network definition */
+  network: NetworkName | NetworkDefinition;
   rpcUrl?: string;
+  /** Wallet (signer or private key) that relays settlements and pays gas */
+  facilitator?: ethers.Signer | string;
+  /** Index settlements for registered services; enables GET /api/x402/services/:id/payments */
+  indexer?: PaymentIndexerConfig;
+  /** Agent version published on the agent card */
+  version?: string;
+  /** Organization published on the agent card */
+  provider?: AgentProvider;
+  documentationUrl?: string;
+  /** Operator key (signer or private key) that signs the published agent card */
+  cardSigner?: ethers.Signer | string;
+  /** Agent card signature scheme (default 'eip191') */
+  cardSignatureScheme?: AgentCardSignatureScheme;
+  /** Persist registered services; a string is the path of a JSON file store */
+  serviceStore?: ServiceStore | string;
+  /** Multicall3 batching and caching of on-chain reads */
+  contractReader?: ContractReaderOptions;
+  /** RPC failover, retries, timeouts and rate limiting */
+  rpc?: RpcOptions;
 }
 
 /**
@@ -28,15 +91,57 @@ export interface X402ServerConfig {
  */
 export class X402Server {
   private config: X402ServerConfig;
+  private network: NetworkName;
   private services: Map<string, X402Service> = new Map();
   private contractReader: ContractReader;
   private networkSettings: ReturnType<typeof NetworkConfig.getConfig>;
+  private facilitator?: ethers.Signer;
+  private signatureVerifier: SignatureVerifier;
+  private indexer?: PaymentIndexer;
+  private cardSigner?: ethers.Signer;
+  private signedCard?: { canonical: string; card: AgentCard };
+  private serviceStore?: ServiceStore;
+  /** Stored services that failed to restore; kept so the next save does not drop them */
+  private unrestoredServices: Map<string, X402ServiceConfig> = new Map();
+  private persisting: Promise<void> = Promise.resolve();
 
   constructor(config: X402ServerConfig) {
     this.validateConfig(config);
     this.config = config;
-    this.networkSettings = NetworkConfig.getConfig(config.network, config.rpcUrl);
-    this.contractReader = new ContractReader(this.networkSettings.rpcUrl);
+    this.network = NetworkConfig.resolve(config.network);
+    this.networkSettings = NetworkConfig.getConfig(this.network, config.rpcUrl);
+    this.contractReader = new ContractReader(
+      [this.networkSettings.rpcUrl, ...(this.networkSettings.fallbackRpcUrls ?? [])],
+      { ...config.contractReader, rpc: config.rpc ?? config.contractReader?.rpc }
+    );
+    this.signatureVerifier = new SignatureVerifier(this.contractReader);
+    if (config.cardSigner) {
+      this.cardSigner = typeof config.cardSigner === 'string'
+        ? new ethers.Wallet(config.cardSigner)
+        : config.cardSigner;
+    }
+    if (config.facilitator) {
+      this.facilitator = this.connectFacilitator(config.facilitator);
+    }
+    if (config.indexer) {
+      this.indexer = new PaymentIndexer(this, config.indexer);
+    }
+    if (config.serviceStore) {
+      this.serviceStore = typeof config.serviceStore === 'string'
+        ? new JsonFileServiceStore(config.serviceStore)
+        : config.serviceStore;
+    }
+  }
+
+  /**
+   * Attach the facilitator wallet to the server's provider
+   */
+  private connectFacilitator(facilitator: ethers.Signer | string): ethers.Signer {
+    const provider = this.contractReader.getProvider();
+    if (typeof facilitator === 'string') {
+      return new ethers.Wallet(facilitator, provider);
+    }
+    return facilitator.provider ? facilitator : facilitator.connect(provider);
   }
 
   /**
@@ -55,9 +160,9 @@ export class X402Server {
       );
     }
 
-    if (!NetworkConfig.isValidNetwork(config.network)) {
+    if (typeof config.network === 'string' && !NetworkConfig.isValidNetwork(config.network)) {
       throw new ConfigurationError(
-        `Invalid network: ${config.network}. Must be 'cronos' or 'cronos-testnet'`
+        `Invalid network: ${config.network}. Known networks: ${NetworkConfig.listNetworks().join(', ')}`
       );
     }
   }
@@ -66,6 +171,14 @@ export class X402Server {
    * Register a new x402 service
    */
   async addService(serviceConfig: X402ServiceConfig): Promise<void> {
+    await this.registerService(serviceConfig);
+    await this.persistServices();
+  }
+
+  /**
+   * Validate a service config and resolve its router and token on-chain, without persisting
+   */
+  private async registerService(serviceConfig: X402ServiceConfig): Promise<X402Service> {
     // Validate required fields
     const missingFields: string[] = [];
     if (!serviceConfig.id) missingFields.push('id');
@@ -80,20 +193,202 @@ export class X402Server {
       );
     }
 
-    // Validate hook contract exists and read settlement router
-    const settlementRouter = await this.contractReader.getSettlementRouter(
-      serviceConfig.hookAddress
-    );
+    if (!HookRegistry.has(serviceConfig.hookType)) {
+      throw new ConfigurationError(
+        `Unknown hook type: ${serviceConfig.hookType}. Register it with HookRegistry.register`,
+        ['hookType']
+      );
+    }
+
+    // Validate hook contract exists, read settlement router and payment token info
+    const tokenAddress = serviceConfig.tokenAddress || this.networkSettings.usdcAddress;
+    const [settlementRouter, tokenInfo] = await Promise.all([
+      this.contractReader.getSettlementRouter(serviceConfig.hookAddress),
+      this.contractReader.getTokenInfo(tokenAddress),
+    ]);
 
     // Build full service object
     const service: X402Service = {
       ...serviceConfig,
       settlementRouter,
-      usdcAddress: this.networkSettings.usdcAddress,
+      usdcAddress: tokenAddress,
+      token: { address: tokenAddress, ...tokenInfo },
       chainId: this.networkSettings.chainId,
     };
 
     this.services.set(serviceConfig.id, service);
+    this.unrestoredServices.delete(serviceConfig.id);
+    return service;
+  }
+
+  /**
+   * Update a registered service. The service is re-resolved on-chain before the change is applied
+   */
+  async updateService(
+    id: string,
+    changes: Partial<Omit<X402ServiceConfig, 'id'>>
+  ): Promise<X402Service> {
+    const existing = this.requireService(id);
+    const service = await this.registerService({ ...this.toServiceConfig(existing), ...changes, id });
+    await this.persistServices();
+    return service;
+  }
+
+  /**
+   * Remove a service. Returns false if no service had that ID
+   */
+  async removeService(id: string): Promise<boolean> {
+    const removed = this.services.delete(id) || this.unrestoredServices.delete(id);
+    if (removed) {
+      await this.persistServices();
+    }
+    return removed;
+  }
+
+  /**
+   * Enable or disable a service. Disabled services are hidden from discovery and refuse payments
+   */
+  async setServiceEnabled(id: string, enabled: boolean): Promise<void> {
+    const service = this.requireService(id);
+    this.services.set(id, { ...service, enabled });
+    await this.persistServices();
+  }
+
+  /**
+   * Check if a service is registered and enabled
+   */
+  isServiceEnabled(id: string): boolean {
+    const service = this.services.get(id);
+    return service !== undefined && service.enabled !== false;
+  }
+
+  /**
+   * Re-read every service's router and token from the chain. Services that no longer
+   * resolve keep their previous state and are reported as failures
+   */
+  async reverifyServices(): Promise<ServiceRegistrationResult[]> {
+    const configs = this.listServices().map((s) => this.toServiceConfig(s));
+    return this.registerAll(configs);
+  }
+
+  /**
+   * Load services from the configured service store, verifying each against the chain
+   */
+  async restoreServices(): Promise<ServiceRegistrationResult[]> {
+    if (!this.serviceStore) {
+      throw new ConfigurationError('No service store configured', ['serviceStore']);
+    }
+    const configs = await this.serviceStore.load();
+    const results = await this.registerAll(configs);
+    results.forEach((result, i) => {
+      if (!result.success) {
+        this.unrestoredServices.set(result.id, configs[i]);
+      }
+    });
+    return results;
+  }
+
+  /**
+   * Register every service in a manifest. All entries are validated up front, valid ones are
+   * resolved on-chain in parallel, and a result is reported per service instead of stopping
+   * at the first failure. Services are persisted once at the end
+   */
+  async loadServices(manifest: ServiceManifest | X402ServiceConfig[]): Promise<ServiceRegistrationResult[]> {
+    const configs = Array.isArray(manifest) ? manifest : manifest.services;
+    const results: ServiceRegistrationResult[] = new Array(configs.length);
+    const valid: Array<{ index: number; config: X402ServiceConfig }> = [];
+    const counts = new Map<unknown, number>();
+    for (const config of configs) {
+      counts.set(config?.id, (counts.get(config?.id) ?? 0) + 1);
+    }
+
+    configs.forEach((config, index) => {
+      const issues = ServiceManifestLoader.validate(config, this.network);
+      if ((counts.get(config?.id) ?? 0) > 1) {
+        issues.push(`duplicate service id ${config.id}`);
+      }
+      if (issues.length > 0) {
+        results[index] = {
+          id: typeof config?.id === 'string' ? config.id : `#${index}`,
+          success: false,
+          error: `Invalid service config: ${issues.join('; ')}`,
+          issues,
+        };
+        return;
+      }
+      valid.push({ index, config });
+    });
+
+    const registered = await this.registerAll(valid.map((v) => v.config));
+    valid.forEach(({ index }, i) => {
+      results[index] = registered[i];
+    });
+
+    if (registered.some((r) => r.success)) {
+      await this.persistServices();
+    }
+    return results;
+  }
+
+  /**
+   * Register every service in a JSON or YAML manifest file
+   */
+  async loadServicesFromFile(path: string): Promise<ServiceRegistrationResult[]> {
+    return this.loadServices(await ServiceManifestLoader.readFile(path));
+  }
+
+  /**
+   * Register services in parallel, collecting a result for each instead of stopping at a failure
+   */
+  private async registerAll(configs: X402ServiceConfig[]): Promise<ServiceRegistrationResult[]> {
+    const settled = await Promise.allSettled(configs.map((config) => this.registerService(config)));
+    return settled.map((outcome, i) => outcome.status === 'fulfilled'
+      ? { id: configs[i].id, success: true }
+      : {
+        id: configs[i].id,
+        success: false,
+        error: outcome.reason instanceof Error ? outcome.reason.message : 'Unknown error',
+      });
+  }
+
+  /**
+   * Write all service configs to the service store, one save at a time
+   */
+  private persistServices(): Promise<void> {
+    const store = this.serviceStore;
+    if (!store) {
+      return Promise.resolve();
+    }
+    const configs = [
+      ...this.listServices().map((s) => this.toServiceConfig(s)),
+      ...this.unrestoredServices.values(),
+    ];
+    this.persisting = this.persisting
+      .catch(() => undefined)
+      .then(() => store.save(configs));
+    return this.persisting;
+  }
+
+  /**
+   * Strip resolved on-chain fields from a service
+   */
+  private toServiceConfig(service: X402Service): X402ServiceConfig {
+    const {
+      settlementRouter: _router,
+      usdcAddress: _usdc,
+      token: _token,
+      chainId: _chainId,
+      ...config
+    } = service;
+    return config;
+  }
+
+  private requireService(id: string): X402Service {
+    const service = this.services.get(id);
+    if (!service) {
+      throw new ConfigurationError(`No service found with ID: ${id}`, ['id']);
+    }
+    return service;
   }
 
   /**
@@ -104,24 +399,104 @@ export class X402Server {
   }
 
   /**
-   * List all registered services
+   * List all registered services, including disabled ones
    */
   listServices(): X402Service[] {
     return Array.from(this.services.values());
   }
 
+  /**
+   * List services that are enabled and published for discovery
+   */
+  listEnabledServices(): X402Service[] {
+    return this.listServices().filter((s) => s.enabled !== false);
+  }
+
   /**
    * Generate agent card for service discovery
    */
   getAgentCard(): AgentCard {
+    const services = this.listEnabledServices();
+    const x402Params: X402ExtensionParams = {
+      network: this.network,
+      chainId: this.networkSettings.chainId,
+      services,
+    };
+
     return {
+      protocolVersion: A2A_PROTOCOL_VERSION,
       name: this.config.name,
-      description: this.config.description,
+      description: this.config.description || this.config.name,
       url: this.config.url,
-      services: this.listServices(),
+      version: this.config.version || '1.0.0',
+      provider: this.config.provider,
+      documentationUrl: this.config.documentationUrl,
+      capabilities: {
+        streaming: false,
+        pushNotifications: false,
+        extensions: [
+          {
+            uri: X402_EXTENSION_URI,
+            description: 'Payments via x402 SettlementRouter with EIP-3009 authorizations',
+            required: true,
+            params: { ...x402Params },
+          },
+        ],
+      },
+      defaultInputModes: ['application/json'],
+      defaultOutputModes: ['application/json'],
+      skills: services.map((service) => ({
+        id: service.id,
+        name: service.title,
+        description: service.description || service.title,
+        tags: ['x402', service.hookType],
+        examples: [HookDataCodec.getSchema(service.hookType).example],
+        inputModes: ['application/json'],
+        outputModes: ['application/json'],
+      })),
+      services,
     };
   }
 
+  /**
+   * Generate an OpenAPI 3.1 document for the x402 routes and enabled services
+   */
+  getOpenApiDocument(): OpenApiDocument {
+    return OpenApiGenerator.generate({
+      name: this.config.name,
+      description: this.config.description,
+      version: this.config.version || '1.0.0',
+      url: this.config.url,
+      services: this.listEnabledServices(),
+      settlement: this.facilitator !== undefined,
+      payments: this.indexer !== undefined,
+    });
+  }
+
+  /**
+   * Get the agent card signed with the configured card signer, or unsigned without one.
+   * The signature is reused until the card changes
+   */
+  async getSignedAgentCard(): Promise<AgentCard> {
+    const card = this.getAgentCard();
+    if (!this.cardSigner) {
+      return card;
+    }
+    const canonical = AgentCardCodec.canonicalize(card);
+    if (this.signedCard?.canonical !== canonical) {
+      this.signedCard = {
+        canonical,
+        card: await AgentCardCodec.sign(
+          card,
+          this.cardSigner,
+          this.config.cardSignatureScheme,
+          this.networkSettings.chainId
+        ),
+      };
+    }
+    return this.signedCard.card;
+  }
+
   /**
    * Get service response with hookData schema
    */
@@ -133,37 +508,360 @@ export class X402Server {
   }
 
   /**
-   * Create Express middleware for x402 endpoints
+   * Check whether a facilitator wallet is configured for relaying settlements
    */
-  expressMiddleware(router: Router): Router {
+  hasFacilitator(): boolean {
+    return this.facilitator !== undefined;
+  }
+
+  /**
+   * Validate a signed authorization against a service and relay it via settleAndExecute
+   */
+  async settlePayment(
+    service: X402Service,
+    request: SettlementRequest
+  ): Promise<TransactionResult> {
+    if (!this.facilitator) {
+      throw new ConfigurationError('No facilitator wallet configured', ['facilitator']);
+    }
+
+    let prepared: PreparedTransaction;
+    try {
+      prepared = TransactionSerializer.deserialize(request?.prepared);
+    } catch (error) {
+      throw new PaymentValidationError('Malformed prepared transaction', [
+        error instanceof Error ? error.message : 'Unknown error',
+      ]);
+    }
+
+    const { signature } = request;
+    if (typeof signature !== 'string') {
+      throw new SignatureError('Invalid signature format', [
+        { reason: 'malformed-signature', message: 'Signature must be a hex string' },
+      ]);
+    }
+
+    PaymentValidator.assertValid(service, prepared);
+    await this.signatureVerifier.assertValid(prepared, signature);
+
+    return new SettlementExecutor(this.facilitator).settle(prepared, signature);
+  }
+
+  /**
+   * Map settlement errors to an HTTP status and JSON body
+   */
+  private describeSettlementError(error: unknown): {
+    status: number;
+    body: { error: string; message: string; [key: string]: unknown };
+  } {
+    if (error instanceof PaymentValidationError) {
+      return {
+        status: 400,
+        body: { error: 'Invalid payment', message: error.message, issues: error.issues },
+      };
+    }
+    if (error instanceof SignatureError) {
+      return {
+        status: 400,
+        body: { error: 'Invalid signature', message: error.message, details: error.details },
+      };
+    }
+    if (error instanceof TransactionError) {
+      return {
+        status: 502,
+        body: {
+          error: 'Settlement failed',
+          message: error.message,
+          revertReason: error.revertReason,
+        },
+      };
+    }
+    return {
+      status: 500,
+      body: {
+        error: 'Internal error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+    };
+  }
+
+  /**
+   * Build machine-readable payment requirements for a service
+   */
+  getPaymentRequirements(service: X402Service, resource: string): PaymentRequirements {
+    if (!service.defaults) {
+      throw new ConfigurationError(
+        `Service ${service.id} has no payment defaults`,
+        ['defaults']
+      );
+    }
+    const token = PaymentValidator.serviceToken(service);
+
+    return {
+      scheme: 'x402-settlement-router',
+      network: service.network,
+      chainId: service.chainId,
+      resource,
+      serviceId: service.id,
+      title: service.title,
+      description: service.description,
+      settlementRouter: service.settlementRouter,
+      hookType: service.hookType,
+      hookAddress: service.hookAddress,
+      token: service.usdcAddress,
+      tokenInfo: {
+        name: token.name,
+        version: token.version,
+        decimals: token.decimals,
+      },
+      amount: service.defaults.paymentAmount,
+      maxAmountRequired: ethers.parseUnits(service.defaults.paymentAmount, token.decimals).toString(),
+      facilitatorFee: service.defaults.facilitatorFee || '0',
+      payTo: service.defaults.payTo,
+      supportingContracts: service.supportingContracts,
+      hookDataSchema: HookDataCodec.getSchema(service.hookType),
+    };
+  }
+
+  /**
+   * Create Express middleware that requires an x402 payment for the given service.
+   * Unpaid requests receive HTTP 402 with payment requirements; requests carrying an
+   * X-PAYMENT header are validated and settled before the route handler runs.
+   */
+  paymentRequired(serviceId: string): RequestHandler {
+    if (!this.facilitator) {
+      throw new ConfigurationError(
+        'A facilitator wallet is required to settle payments',
+        ['facilitator']
+      );
+    }
+
+    return async (req: ExpressRequest, res: ExpressResponse, next: NextFunction) => {
+      const service = this.getService(serviceId);
+      if (!service) {
+        res.status(500).json({
+          error: 'Service not found',
+          message: `No service found with ID: ${serviceId}`,
+        });
+        return;
+      }
+      if (!this.isServiceEnabled(serviceId)) {
+        res.status(503).json({
+          error: 'Service unavailable',
+          message: `Service ${serviceId} is disabled`,
+        });
+        return;
+      }
+
+      let accepts: PaymentRequirements[];
+      try {
+        accepts = [this.getPaymentRequirements(service, req.originalUrl)];
+      } catch (error) {
+        const { body } = this.describeSettlementError(error);
+        res.status(500).json(body);
+        return;
+      }
+
+      const sendPaymentRequired = (body: Omit<PaymentRequiredResponse, 'x402Version' | 'accepts'>) => {
+        const response: PaymentRequiredResponse = { x402Version: X402_VERSION, ...body, accepts };
+        res.status(402).json(response);
+      };
+
+      const header = req.get(X402_PAYMENT_HEADER);
+      if (!header) {
+        sendPaymentRequired({
+          error: 'Payment required',
+          message: `Pay for service ${service.id} and retry with the ${X402_PAYMENT_HEADER} header`,
+        });
+        return;
+      }
+
+      let request: SettlementRequest;
+      try {
+        request = TransactionSerializer.decodePaymentHeader(header);
+      } catch (error) {
+        sendPaymentRequired({
+          error: 'Invalid payment header',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+        return;
+      }
+
+      try {
+        const result = await this.settlePayment(service, request);
+        const paymentResponse: PaymentResponse = {
+          success: result.success,
+          txHash: result.txHash,
+          blockNumber: result.blockNumber,
+          network: service.network,
+        };
+        res.setHeader(X402_PAYMENT_RESPONSE_HEADER, TransactionSerializer.encodeHeader(paymentResponse));
+        res.locals.x402Payment = result;
+        next();
+      } catch (error) {
+        const { status, body } = this.describeSettlementError(error);
+        if (status === 500) {
+          res.status(status).json(body);
+          return;
+        }
+        sendPaymentRequired(body);
+      }
+    };
+  }
+
+  /**
+   * Handle an x402 route as a standard fetch Request. Resolves to undefined when the
+   * request does not match a route, so callers can fall through to their own handlers.
+   *
+   * Routes: GET /.well-known/agent.json, GET /api/x402/services, GET /api/x402/services/:id,
+   * GET /api/x402/services/:id/payments (with an indexer), POST /api/x402/services/:id/settle
+   * (with a facilitator)
+   */
+  async handleRequest(request: Request): Promise<Response | undefined> {
+    const url = new URL(request.url);
+    const path = url.pathname.replace(/\/+$/, '');
+    const method = request.method.toUpperCase();
+    const isGet = method === 'GET' || method === 'HEAD';
+
     // Agent card endpoint
-    router.get('/.well-known/agent.json', (_req: Request, res: Response) => {
-      res.json(this.getAgentCard());
-    });
+    if (path === '/.well-known/agent.json' && isGet) {
+      try {
+        return jsonResponse(200, await this.getSignedAgentCard());
+      } catch (error) {
+        return jsonResponse(500, {
+          error: 'Failed to sign agent card',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
 
     // List all services
-    router.get('/api/x402/services', (_req: Request, res: Response) => {
-      const services = this.listServices().map((s) => this.getServiceResponse(s));
-      res.json({ services });
+    if (path === '/api/x402/services' && isGet) {
+      const services = this.listEnabledServices().map((s) => this.getServiceResponse(s));
+      return jsonResponse(200, { services });
+    }
+
+    // OpenAPI description of these routes
+    if (path === '/api/x402/openapi.json' && isGet) {
+      return jsonResponse(200, this.getOpenApiDocument());
+    }
+
+    const match = /^\/api\/x402\/services\/([^/]+)(?:\/(payments|settle))?$/.exec(path);
+    if (!match) {
+      return undefined;
+    }
+    let serviceId: string;
+    try {
+      serviceId = decodeURIComponent(match[1]);
+    } catch {
+      return jsonResponse(400, {
+        error: 'Invalid service ID',
+        message: `Malformed percent-encoding in ${match[1]}`,
+      });
+    }
+    const action = match[2];
+    const notFound = () => jsonResponse(404, {
+      error: 'Service not found',
+      message: `No service found with ID: ${serviceId}`,
     });
 
     // Get single service by ID
-    router.get('/api/x402/services/:id', (req: Request, res: Response) => {
-      const serviceId = req.params.id as string;
+    if (!action && isGet) {
+      const service = this.getService(serviceId);
+      if (!service || !this.isServiceEnabled(serviceId)) {
+        return notFound();
+      }
+      return jsonResponse(200, this.getServiceResponse(service));
+    }
+
+    // Indexed payment history for reconciliation
+    if (action === 'payments' && isGet && this.indexer) {
+      if (!this.getService(serviceId)) {
+        return notFound();
+      }
+      try {
+        const params = url.searchParams;
+        const query: PaymentQuery = {
+          serviceId,
+          payer: params.get('payer') ?? undefined,
+          fromBlock: this.parseIntegerQuery(params.get('fromBlock')),
+          toBlock: this.parseIntegerQuery(params.get('toBlock')),
+          limit: this.parseIntegerQuery(params.get('limit')) ?? 100,
+          offset: this.parseIntegerQuery(params.get('offset')),
+        };
+        const [payments, summary] = await Promise.all([
+          this.indexer.getPayments(query),
+          this.indexer.getSummary(serviceId),
+        ]);
+        return jsonResponse(200, TransactionSerializer.toJsonSafe({ serviceId, summary, payments }));
+      } catch (error) {
+        const { status, body } = this.describeSettlementError(error);
+        return jsonResponse(status, body);
+      }
+    }
+
+    // Relay signed authorizations with the facilitator wallet
+    if (action === 'settle' && method === 'POST' && this.facilitator) {
       const service = this.getService(serviceId);
       if (!service) {
-        res.status(404).json({
-          error: 'Service not found',
-          message: `No service found with ID: ${req.params.id}`,
+        return notFound();
+      }
+      if (!this.isServiceEnabled(serviceId)) {
+        return jsonResponse(503, {
+          error: 'Service unavailable',
+          message: `Service ${serviceId} is disabled`,
         });
-        return;
       }
-      res.json(this.getServiceResponse(service));
-    });
+      let settlementRequest: SettlementRequest;
+      try {
+        settlementRequest = (await request.json()) as SettlementRequest;
+      } catch {
+        return jsonResponse(400, {
+          error: 'Invalid request body',
+          message: 'Expected a JSON settlement request',
+        });
+      }
+      try {
+        const result = await this.settlePayment(service, settlementRequest);
+        return jsonResponse(200, TransactionSerializer.serializeResult(result));
+      } catch (error) {
+        const { status, body } = this.describeSettlementError(error);
+        return jsonResponse(status, body);
+      }
+    }
 
+    return undefined;
+  }
+
+  /**
+   * Create Express middleware for x402 endpoints
+   */
+  expressMiddleware(router: Router): Router {
+    router.use(toExpressHandler(this));
     return router;
   }
 
+  private parseIntegerQuery(value: string | null): number | undefined {
+    if (value === null || !/^\d+$/.test(value)) {
+      return undefined;
+    }
+    return Number(value);
+  }
+
+  /**
+   * Get the payment indexer, when configured
+   */
+  getPaymentIndexer(): PaymentIndexer | undefined {
+    return this.indexer;
+  }
+
+  /**
+   * Get the contract reader used for on-chain lookups
+   */
+  getContractReader(): ContractReader {
+    return this.contractReader;
+  }
+
   /**
    * Get server configuration
    */
@@ -171,6 +869,13 @@ export class X402Server {
     return { ...this.config };
   }
 
+  /**
+   * Get the resolved network name
+   */
+  getNetwork(): NetworkName {
+    return this.network;
+  }
+
   /**
    * Get network settings
    */
@@ -179,6 +884,16 @@ export class X402Server {
   }
 }
 
+/**
+ * JSON response with the status and body given
+ */
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json; charset=utf-8' },
+  });
+}
+
 /**
  * Create a new X402 server instance
  */
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { ServiceManifestLoader } from './service-manifest.js';
+import { AgentCardCodec } from '../shared/index.js';
+
+const CONFIG = {
+  id: 'nft-shop',
+  title: 'NFT Shop',
+  hookType: 'nft-mint',
+  hookAddress: '0x1111111111111111111111111111111111111111',
+  network: 'cronos-testnet',
+};
+
+describe('ServiceManifestLoader.validate', () => {
+  it('accepts a minimal service config', () => {
+    expect(ServiceManifestLoader.validate(CONFIG, 'cronos-testnet')).toEqual([]);
+  });
+
+  it('reports unknown fields and a network mismatch', () => {
+    expect(ServiceManifestLoader.validate({ ...CONFIG, hookAdress: CONFIG.hookAddress }, 'cronos')).toEqual([
+      'unknown field hookAdress',
+      'network must be cronos, got cronos-testnet',
+    ]);
+  });
+
+  it.each<unknown>([
+    null,
+    { paymentAmount: '0.5', facilitatorFee: '', payTo: '0x2222222222222222222222222222222222222222' },
+    { paymentAmount: 'one', facilitatorFee: 'none', payTo: 'merchant' },
+  ])('checks defaults the same way as advertised services (%j)', (defaults) => {
+    expect(ServiceManifestLoader.validate({ ...CONFIG, defaults })).toEqual(AgentCardCodec.validateDefaults(defaults));
+  });
+});
@@ -0,0 +1,147 @@
+import { ethers } from 'ethers';
+import { ConfigurationError } from '../errors/index.js';
+import { AgentCardCodec, HookRegistry } from '../shared/index.js';
+import type { NetworkName, X402ServiceConfig } from '../shared/types.js';
+
+/**
+ * Declarative list of services to register, loaded from JSON or YAML
+ */
+export interface ServiceManifest {
+  services: X402ServiceConfig[];
+}
+
+/**
+ * Manifest file format
+ */
+export type ServiceManifestFormat = 'json' | 'yaml';
+
+/**
+ * Keys accepted on a service entry; anything else is reported as a likely typo
+ */
+const SERVICE_CONFIG_KEYS = new Set<string>([
+  'id',
+  'title',
+  'description',
+  'hookType',
+  'hookAddress',
+  'network',
+  'tokenAddress',
+  'supportingContracts',
+  'defaults',
+  'enabled',
+]);
+
+/**
+ * Parses and validates service manifests
+ */
+export class ServiceManifestLoader {
+  /**
+   * Read a manifest file; the format is taken from the extension (.json, .yaml, .yml)
+   */
+  static async readFile(path: string): Promise<ServiceManifest> {
+    const { readFile } = await import('node:fs/promises');
+    const format: ServiceManifestFormat = /\.ya?ml$/i.test(path) ? 'yaml' : 'json';
+    return this.parse(await readFile(path, 'utf8'), format);
+  }
+
+  /**
+   * Parse manifest text. YAML needs the optional `yaml` package
+   */
+  static async parse(contents: string, format: ServiceManifestFormat = 'json'): Promise<ServiceManifest> {
+    let parsed: unknown;
+    try {
+      parsed = format === 'yaml' ? (await loadYaml()).parse(contents) : JSON.parse(contents);
+    } catch (error) {
+      if (error instanceof ConfigurationError) {
+        throw error;
+      }
+      throw new ConfigurationError(
+        `Invalid ${format.toUpperCase()} service manifest: ${error instanceof Error ? error.message : 'parse failed'}`
+      );
+    }
+
+    const services = Array.isArray(parsed)
+      ? parsed
+      : (parsed as { services?: unknown } | null)?.services;
+    if (!Array.isArray(services)) {
+      throw new ConfigurationError('Service manifest must contain a services array', ['services']);
+    }
+    return { services: services as X402ServiceConfig[] };
+  }
+
+  /**
+   * Collect problems with a service entry against the X402ServiceConfig shape
+   */
+  static validate(config: unknown, network?: NetworkName): string[] {
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+      return ['service must be an object'];
+    }
+    const entry = config as Record<string, unknown>;
+    const issues: string[] = [];
+    const expectString = (field: string, value: unknown, optional = false) => {
+      if (optional && value === undefined) {
+        return;
+      }
+      if (typeof value !== 'string' || value.length === 0) {
+        issues.push(`${field} must be a non-empty string`);
+      }
+    };
+    const expectAddress = (field: string, value: unknown, optional = false) => {
+      if (optional && value === undefined) {
+        return;
+      }
+      if (typeof value !== 'string' || !ethers.isAddress(value)) {
+        issues.push(`${field} must be an address, got ${String(value)}`);
+      }
+    };
+
+    for (const key of Object.keys(entry)) {
+      if (!SERVICE_CONFIG_KEYS.has(key)) {
+        issues.push(`unknown field ${key}`);
+      }
+    }
+
+    expectString('id', entry.id);
+    expectString('title', entry.title);
+    expectString('description', entry.description, true);
+    if (typeof entry.hookType !== 'string' || !HookRegistry.has(entry.hookType)) {
+      issues.push(`hookType ${String(entry.hookType)} is not registered`);
+    }
+    expectAddress('hookAddress', entry.hookAddress);
+    expectString('network', entry.network);
+    if (network !== undefined && typeof entry.network === 'string' && entry.network !== network) {
+      issues.push(`network must be ${network}, got ${entry.network}`);
+    }
+    expectAddress('tokenAddress', entry.tokenAddress, true);
+    if (entry.enabled !== undefined && typeof entry.enabled !== 'boolean') {
+      issues.push('enabled must be a boolean');
+    }
+
+    if (entry.supportingContracts !== undefined) {
+      if (typeof entry.supportingContracts !== 'object' || entry.supportingContracts === null) {
+        issues.push('supportingContracts must be an object');
+      } else {
+        for (const [name, address] of Object.entries(entry.supportingContracts)) {
+          expectAddress(`supportingContracts.${name}`, address, true);
+        }
+      }
+    }
+
+    if (entry.defaults !== undefined) {
+      issues.push(...AgentCardCodec.validateDefaults(entry.defaults));
+    }
+
+    return issues;
+  }
+}
+
+/**
+ * Load the optional yaml package on first use
+ */
+async function loadYaml(): Promise<{ parse(contents: string): unknown }> {
+  try {
+    return await import('yaml');
+  } catch {
+    throw new ConfigurationError('YAML manifests require the "yaml" package: npm install yaml', ['yaml']);
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { JsonFileServiceStore } from './service-store.js';
+import { X402Server } from './server.js';
+import { ConfigurationError } from '../errors/index.js';
+import { ContractReader } from '../shared/index.js';
+import type { X402ServiceConfig } from '../shared/types.js';
+
+const ROUTER = '0x1111111111111111111111111111111111111111';
+
+const SERVICE: X402ServiceConfig = {
+  id: 'nft-shop',
+  title: 'NFT Shop',
+  hookType: 'nft-mint',
+  hookAddress: '0x2222222222222222222222222222222222222222',
+  network: 'cronos-testnet',
+  supportingContracts: { nftContract: '0x3333333333333333333333333333333333333333' },
+  defaults: { paymentAmount: '1', facilitatorFee: '0.01', payTo: '0x4444444444444444444444444444444444444444' },
+};
+
+async function tempPath(name: string): Promise<string> {
+  return join(await mkdtemp(join(tmpdir(), 'x402-store-')), name);
+}
+
+describe('JsonFileServiceStore', () => {
+  it('loads an empty list when the file does not exist', async () => {
+    const store = new JsonFileServiceStore(await tempPath('services.json'));
+    expect(await store.load()).toEqual([]);
+  });
+
+  it('round-trips services through the file, creating missing directories', async () => {
+    const path = join(await tempPath('nested'), 'deeper', 'services.json');
+    const store = new JsonFileServiceStore(path);
+    await store.save([SERVICE]);
+
+    expect(await new JsonFileServiceStore(path).load()).toEqual([SERVICE]);
+    expect(JSON.parse(await readFile(path, 'utf8'))).toEqual({ services: [SERVICE] });
+  });
+
+  it('leaves no temporary file behind after a save', async () => {
+    const path = await tempPath('services.json');
+    await new JsonFileServiceStore(path).save([SERVICE]);
+    await new JsonFileServiceStore(path).save([]);
+
+    expect(await readdir(join(path, '..'))).toEqual(['services.json']);
+    expect(await new JsonFileServiceStore(path).load()).toEqual([]);
+  });
+
+  it('rejects a file without a services array', async () => {
+    const path = await tempPath('services.json');
+    await writeFile(path, JSON.stringify({ items: [] }), 'utf8');
+    await expect(new JsonFileServiceStore(path).load()).rejects.toThrow(ConfigurationError);
+  });
+
+  it('rejects a file that is not JSON', async () => {
+    const path = await tempPath('services.json');
+    await writeFile(path, '{ services: ', 'utf8');
+    await expect(new JsonFileServiceStore(path).load()).rejects.toThrow(SyntaxError);
+  });
+});
+
+describe('X402Server with a file service store', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('restores services saved by a previous server from the configured path', async () => {
+    vi.spyOn(ContractReader.prototype, 'getSettlementRouter').mockResolvedValue(ROUTER);
+    vi.spyOn(ContractReader.prototype, 'getTokenInfo').mockResolvedValue({ name: 'USD Coin', version: '2', decimals: 6 });
+    const path = await tempPath('services.json');
+    const config = { name: 'Test', url: 'http://localhost', network: 'cronos-testnet' as const, serviceStore: path };
+
+    const first = new X402Server(config);
+    await first.addService(SERVICE);
+    await first.setServiceEnabled('nft-shop', false);
+
+    const second = new X402Server(config);
+    expect(await second.restoreServices()).toEqual([{ id: 'nft-shop', success: true }]);
+    expect(second.getService('nft-shop')).toMatchObject({ ...SERVICE, enabled: false, settlementRouter: ROUTER, chainId: 338 });
+    expect(second.isServiceEnabled('nft-shop')).toBe(false);
+  });
+});
@@ -0,0 +1,60 @@
+import { ConfigurationError } from '../errors/index.js';
+import type { X402ServiceConfig } from '../shared/types.js';
+
+/**
+ * Persistence backend for registered service configurations
+ */
+export interface ServiceStore {
+  load(): Promise<X402ServiceConfig[]>;
+  save(services: X402ServiceConfig[]): Promise<void>;
+}
+
+/**
+ * Outcome of registering one service
+ */
+export interface ServiceRegistrationResult {
+  id: string;
+  success: boolean;
+  error?: string;
+  /** Shape problems found before any on-chain lookup */
+  issues?: string[];
+}
+
+/**
+ * Service store backed by a JSON file (default when a path is configured).
+ * node:fs is loaded on first use so the server still runs on edge runtimes
+ */
+export class JsonFileServiceStore implements ServiceStore {
+  constructor(private path: string) {}
+
+  async load(): Promise<X402ServiceConfig[]> {
+    const { readFile } = await import('node:fs/promises');
+    let contents: string;
+    try {
+      contents = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(contents) as { services?: unknown };
+    if (!Array.isArray(parsed.services)) {
+      throw new ConfigurationError(`Service store ${this.path} has no services array`, ['services']);
+    }
+    return parsed.services as X402ServiceConfig[];
+  }
+
+  async save(services: X402ServiceConfig[]): Promise<void> {
+    const [{ mkdir, rename, writeFile }, { dirname }] = await Promise.all([
+      import('node:fs/promises'),
+      import('node:path'),
+    ]);
+    // Write to a temporary file first so a crash never leaves a truncated store
+    const tmpPath = `${this.path}.tmp`;
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(tmpPath, `${JSON.stringify({ services }, null, 2)}\n`, 'utf8');
+    await rename(tmpPath, this.path);
+  }
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { AgentCardCodec, A2A_PROTOCOL_VERSION, X402_EXTENSION_URI } from './agent-card.js';
+import type { AgentCard, AgentCardSignatureScheme, X402Service } from './types.js';
+
+const operator = new ethers.Wallet(ethers.id('operator'));
+
+const SERVICES: X402Service[] = [
+  {
+    id: 'nft-shop',
+    title: 'NFT Shop',
+    hookType: 'nft-mint',
+    hookAddress: '0x1111111111111111111111111111111111111111',
+    network: 'cronos-testnet',
+    settlementRouter: '0x2222222222222222222222222222222222222222',
+    usdcAddress: '0x3333333333333333333333333333333333333333',
+    token: { address: '0x3333333333333333333333333333333333333333', name: 'USD Coin', version: '2', decimals: 6 },
+    chainId: 338,
+    supportingContracts: { nftContract: '0x4444444444444444444444444444444444444444' },
+    defaults: { paymentAmount: '1', facilitatorFee: '0.01', payTo: '0x5555555555555555555555555555555555555555' },
+  },
+];
+
+function card(): AgentCard {
+  return {
+    protocolVersion: A2A_PROTOCOL_VERSION,
+    name: 'Test Agent',
+    description: 'Agent card signing test',
+    url: 'https://agent.example.com',
+    version: '1.0.0',
+    // Dropped by JSON.stringify; canonicalisation must drop them too
+    provider: undefined,
+    documentationUrl: undefined,
+    capabilities: {
+      streaming: false,
+      extensions: [
+        { uri: X402_EXTENSION_URI, required: true, params: { network: 'cronos-testnet', chainId: 338, services: SERVICES } },
+      ],
+    },
+    defaultInputModes: ['application/json'],
+    defaultOutputModes: ['application/json'],
+    skills: [{ id: 'nft-shop', name: 'NFT Shop', description: 'NFT Shop', tags: ['x402', 'nft-mint'] }],
+    services: SERVICES,
+  };
+}
+
+/**
+ * Send a card over the wire, reversing key order to mimic a different serializer
+ */
+function overTheWire(value: AgentCard): AgentCard {
+  const reverse = (v: unknown): unknown => {
+    if (Array.isArray(v)) return v.map(reverse);
+    if (v && typeof v === 'object') {
+      return Object.fromEntries(Object.entries(v).reverse().map(([k, e]) => [k, reverse(e)]));
+    }
+    return v;
+  };
+  return JSON.parse(JSON.stringify(reverse(JSON.parse(JSON.stringify(value))))) as AgentCard;
+}
+
+const SCHEMES: Array<[AgentCardSignatureScheme, number | undefined]> = [['eip191', undefined], ['eip712', 338]];
+
+describe('AgentCardCodec signatures', () => {
+  it.each(SCHEMES)('recovers the signer after a JSON round trip (%s)', async (scheme, chainId) => {
+    const signed = await AgentCardCodec.sign(card(), operator, scheme, chainId);
+    expect(AgentCardCodec.recoverSigner(overTheWire(signed))).toBe(operator.address);
+  });
+
+  it.each(SCHEMES)('fails recovery when the extension payTo changes (%s)', async (scheme, chainId) => {
+    const received = overTheWire(await AgentCardCodec.sign(card(), operator, scheme, chainId));
+    const params = received.capabilities.extensions![0].params as { services: X402Service[] };
+    params.services[0].defaults!.payTo = '0x6666666666666666666666666666666666666666';
+    expect(AgentCardCodec.recoverSigner(received)).toBeUndefined();
+  });
+
+  it.each(SCHEMES)('fails recovery when the legacy services payTo changes (%s)', async (scheme, chainId) => {
+    const received = overTheWire(await AgentCardCodec.sign(card(), operator, scheme, chainId));
+    received.services![0].defaults!.payTo = '0x6666666666666666666666666666666666666666';
+    expect(AgentCardCodec.recoverSigner(received)).toBeUndefined();
+  });
+
+  it('fails recovery when the card names a different signer', async () => {
+    const signed = await AgentCardCodec.sign(card(), operator);
+    const forged = { ...signed, x402Signature: { ...signed.x402Signature!, signer: ethers.ZeroAddress } };
+    expect(AgentCardCodec.recoverSigner(forged)).toBeUndefined();
+  });
+
+  it('fails eip712 recovery under a different chain ID', async () => {
+    const signed = await AgentCardCodec.sign(card(), operator, 'eip712', 338);
+    const moved = { ...signed, x402Signature: { ...signed.x402Signature!, chainId: 25 } };
+    expect(AgentCardCodec.recoverSigner(moved)).toBeUndefined();
+  });
+
+  it('returns undefined for unsigned cards', () => {
+    expect(AgentCardCodec.recoverSigner(card())).toBeUndefined();
+  });
+});
+
+describe('AgentCardCodec.validateDefaults', () => {
+  it('accepts complete defaults and an empty facilitator fee', () => {
+    expect(AgentCardCodec.validateDefaults(SERVICES[0].defaults)).toEqual([]);
+    expect(AgentCardCodec.validateDefaults({ ...SERVICES[0].defaults, facilitatorFee: '' })).toEqual([]);
+  });
+
+  it.each<[string, unknown, string]>([
+    ['a non-object', [], 'defaults must be an object'],
+    ['a bad payTo', { paymentAmount: '1', facilitatorFee: '0', payTo: '0x1234' },
+      'defaults.payTo must be an address, got 0x1234'],
+    ['a non-decimal amount', { paymentAmount: '1e6', facilitatorFee: '0', payTo: ethers.ZeroAddress },
+      'defaults.paymentAmount must be a decimal amount string'],
+    ['a negative fee', { paymentAmount: '1', facilitatorFee: '-1', payTo: ethers.ZeroAddress },
+      'defaults.facilitatorFee must be a decimal amount string'],
+  ])('reports %s', (_, defaults, issue) => {
+    expect(AgentCardCodec.validateDefaults(defaults)).toEqual([issue]);
+  });
+});
+
+describe('AgentCardCodec.getServices', () => {
+  it('reads services from this package\'s extension', () => {
+    const a2a = { ...card(), services: undefined };
+    expect(AgentCardCodec.getServices(a2a)).toEqual(SERVICES);
+  });
+
+  it('ignores extensions under other URIs, such as the a2a-x402 spec', () => {
+    const foreign = { ...card(), services: undefined };
+    foreign.capabilities.extensions![0].uri = 'https://github.com/google-agentic-commerce/a2a-x402/blob/main/spec/v0.1';
+    expect(AgentCardCodec.getX402Extension(foreign)).toBeUndefined();
+    expect(AgentCardCodec.getServices(foreign)).toEqual([]);
+  });
+});
@@ -0,0 +1,280 @@
+import { ethers } from 'ethers';
+import { ConfigurationError } from '../errors/index.js';
+import { HookRegistry } from './hook-registry.js';
+import type {
+  AgentCard,
+  AgentCardSignature,
+  AgentCardSignatureScheme,
+  AgentExtension,
+  LegacyAgentCard,
+  X402ExtensionParams,
+  X402Service,
+} from './types.js';
+
+/**
+ * A2A protocol version the published agent card follows
+ */
+export const A2A_PROTOCOL_VERSION = '0.3.0';
+
+/**
+ * URI identifying this package's x402 SettlementRouter extension on an A2A agent card.
+ * Its params are X402ExtensionParams, which differ from the a2a-x402 spec, so it uses its own URI
+ */
+export const X402_EXTENSION_URI = 'https://www.npmjs.com/package/@qilinxlabs/a2a-cronos-x402#x402-settlement-router-v1';
+
+/**
+ * EIP-712 types for eip712 agent card signatures
+ */
+const AGENT_CARD_TYPES = {
+  AgentCard: [
+    { name: 'url', type: 'string' },
+    { name: 'cardHash', type: 'bytes32' },
+  ],
+};
+
+/**
+ * Helpers for reading both A2A and legacy agent cards
+ */
+export class AgentCardCodec {
+  /**
+   * Check if a card follows the A2A agent card format
+   */
+  static isA2ACard(card: AgentCard | LegacyAgentCard): card is AgentCard {
+    return Array.isArray((card as AgentCard).skills)
+      && typeof (card as AgentCard).capabilities === 'object';
+  }
+
+  /**
+   * Get the x402 extension from an A2A card
+   */
+  static getX402Extension(card: AgentCard | LegacyAgentCard): AgentExtension | undefined {
+    if (!this.isA2ACard(card)) {
+      return undefined;
+    }
+    return card.capabilities.extensions?.find((e) => e.uri === X402_EXTENSION_URI);
+  }
+
+  /**
+   * Get the x402 services from an A2A card's extension, falling back to the legacy field
+   */
+  static getServices(card: AgentCard | LegacyAgentCard): X402Service[] {
+    const params = this.getX402Extension(card)?.params as X402ExtensionParams | undefined;
+    if (params && Array.isArray(params.services)) {
+      return params.services;
+    }
+    return Array.isArray(card.services) ? card.services : [];
+  }
+
+  /**
+   * Deterministic JSON for signing: sorted keys, no whitespace, signature and undefined fields dropped
+   */
+  static canonicalize(card: AgentCard): string {
+    const { x402Signature: _signature, ...unsigned } = card;
+    return canonicalJson(unsigned);
+  }
+
+  /**
+   * Sign a card with an operator key and attach the signature
+   */
+  static async sign(
+    card: AgentCard,
+    signer: ethers.Signer,
+    scheme: AgentCardSignatureScheme = 'eip191',
+    chainId?: number
+  ): Promise<AgentCard> {
+    const canonical = this.canonicalize(card);
+    const address = await signer.getAddress();
+    let signature: string;
+    if (scheme === 'eip712') {
+      if (chainId === undefined) {
+        throw new ConfigurationError('chainId is required for eip712 agent card signatures', ['chainId']);
+      }
+      signature = await signer.signTypedData(
+        this.signingDomain(chainId),
+        AGENT_CARD_TYPES,
+        { url: card.url, cardHash: ethers.id(canonical) }
+      );
+    } else {
+      signature = await signer.signMessage(canonical);
+    }
+    return {
+      ...card,
+      x402Signature: { scheme, signer: address, signature, ...(scheme === 'eip712' ? { chainId } : {}) },
+    };
+  }
+
+  /**
+   * Recover the address that signed a card. Returns undefined when the card is unsigned,
+   * the signature is malformed, or it was not made by the signer it names
+   */
+  static recoverSigner(card: AgentCard | LegacyAgentCard): string | undefined {
+    const signature: AgentCardSignature | undefined = (card as AgentCard).x402Signature;
+    if (!signature || typeof signature.signature !== 'string' || typeof signature.signer !== 'string') {
+      return undefined;
+    }
+    try {
+      const canonical = this.canonicalize(card as AgentCard);
+      const recovered = signature.scheme === 'eip712' && typeof signature.chainId === 'number'
+        ? ethers.verifyTypedData(
+          this.signingDomain(signature.chainId),
+          AGENT_CARD_TYPES,
+          { url: card.url, cardHash: ethers.id(canonical) },
+          signature.signature
+        )
+        : signature.scheme === 'eip191'
+          ? ethers.verifyMessage(canonical, signature.signature)
+          : undefined;
+      return recovered && recovered.toLowerCase() === signature.signer.toLowerCase()
+        ? recovered
+        : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private static signingDomain(chainId: number): ethers.TypedDataDomain {
+    return { name: 'x402 Agent Card', version: '1', chainId };
+  }
+
+  /**
+   * Collect structural problems with a fetched agent card
+   */
+  static validateCard(card: unknown): string[] {
+    if (!isObject(card)) {
+      return ['agent card must be a JSON object'];
+    }
+    const issues: string[] = [];
+    if (typeof card.name !== 'string') {
+      issues.push('name must be a string');
+    }
+    if (typeof card.url !== 'string') {
+      issues.push('url must be a string');
+    }
+    const a2a = this.isA2ACard(card as unknown as AgentCard);
+    if (a2a && !this.getX402Extension(card as unknown as AgentCard) && !Array.isArray(card.services)) {
+      issues.push(`capabilities.extensions must include ${X402_EXTENSION_URI}`);
+    }
+    if (!a2a && !Array.isArray(card.services)) {
+      issues.push('services must be an array');
+    }
+    return issues;
+  }
+
+  /**
+   * Collect problems with an advertised service. Pass chainId to require a specific chain
+   */
+  static validateService(service: unknown, chainId?: number): string[] {
+    if (!isObject(service)) {
+      return ['service must be an object'];
+    }
+    const issues: string[] = [];
+    const expectString = (field: string, value: unknown) => {
+      if (typeof value !== 'string' || value.length === 0) {
+        issues.push(`${field} must be a non-empty string`);
+      }
+    };
+    const expectAddress = (field: string, value: unknown) => {
+      if (typeof value !== 'string' || !ethers.isAddress(value)) {
+        issues.push(`${field} must be an address, got ${String(value)}`);
+      }
+    };
+
+    expectString('id', service.id);
+    expectString('title', service.title);
+    expectString('network', service.network);
+    if (typeof service.hookType !== 'string' || !HookRegistry.has(service.hookType)) {
+      issues.push(`hookType ${String(service.hookType)} is not registered`);
+    }
+    expectAddress('hookAddress', service.hookAddress);
+    expectAddress('settlementRouter', service.settlementRouter);
+    expectAddress('usdcAddress', service.usdcAddress);
+
+    if (typeof service.chainId !== 'number' || !Number.isInteger(service.chainId)) {
+      issues.push('chainId must be an integer');
+    } else if (chainId !== undefined && service.chainId !== chainId) {
+      issues.push(`chainId must be ${chainId}, got ${service.chainId}`);
+    }
+
+    if (service.token !== undefined) {
+      const token = service.token;
+      if (!isObject(token)) {
+        issues.push('token must be an object');
+      } else {
+        expectAddress('token.address', token.address);
+        expectString('token.name', token.name);
+        expectString('token.version', token.version);
+        if (typeof token.decimals !== 'number' || !Number.isInteger(token.decimals)
+          || token.decimals < 0 || token.decimals > 255) {
+          issues.push('token.decimals must be an integer between 0 and 255');
+        }
+        if (typeof token.address === 'string' && typeof service.usdcAddress === 'string'
+          && token.address.toLowerCase() !== service.usdcAddress.toLowerCase()) {
+          issues.push('token.address must match usdcAddress');
+        }
+      }
+    }
+
+    if (service.supportingContracts !== undefined) {
+      if (!isObject(service.supportingContracts)) {
+        issues.push('supportingContracts must be an object');
+      } else {
+        for (const [name, address] of Object.entries(service.supportingContracts)) {
+          if (address !== undefined) {
+            expectAddress(`supportingContracts.${name}`, address);
+          }
+        }
+      }
+    }
+
+    if (service.defaults !== undefined) {
+      issues.push(...this.validateDefaults(service.defaults));
+    }
+
+    return issues;
+  }
+
+  /**
+   * Collect problems with a service's payment defaults, shared by advertised services and service configs
+   */
+  static validateDefaults(defaults: unknown): string[] {
+    if (!isObject(defaults)) {
+      return ['defaults must be an object'];
+    }
+    const issues: string[] = [];
+    if (typeof defaults.payTo !== 'string' || !ethers.isAddress(defaults.payTo)) {
+      issues.push(`defaults.payTo must be an address, got ${String(defaults.payTo)}`);
+    }
+    if (typeof defaults.paymentAmount !== 'string' || !DECIMAL_AMOUNT.test(defaults.paymentAmount)) {
+      issues.push('defaults.paymentAmount must be a decimal amount string');
+    }
+    // An empty facilitator fee means no fee
+    if (typeof defaults.facilitatorFee !== 'string'
+      || (defaults.facilitatorFee !== '' && !DECIMAL_AMOUNT.test(defaults.facilitatorFee))) {
+      issues.push('defaults.facilitatorFee must be a decimal amount string');
+    }
+    return issues;
+  }
+}
+
+/**
+ * Unsigned decimal amount, e.g. "1" or "0.25"
+ */
+const DECIMAL_AMOUNT = /^\d+(\.\d+)?$/;
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`;
+  }
+  if (isObject(value)) {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => value[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
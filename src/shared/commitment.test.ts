@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { ethers } from 'ethers';
+import { CommitmentCalculator, COMMITMENT_PREFIX } from './commitment.js';
+import type { CommitmentParams } from './contract-reader.js';
+
+/**
+ * SettlementRouter.calculateCommitment, as deployed
+ */
+const ROUTER = new ethers.Interface([
+  'function calculateCommitment(address token, address from, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 salt, address payTo, uint256 facilitatorFee, address hook, bytes calldata hookData) view returns (bytes32)',
+]);
+
+/**
+ * Reference encoding built from the calculateCommitment ABI: the call is ABI-encoded and
+ * decoded again, then each argument is packed by its ABI type (abi.encodePacked rules)
+ * after the prefix, chain ID and router address. `bytes` arguments are hashed.
+ */
+function referenceCommitment(router: string, chainId: bigint, params: CommitmentParams): string {
+  const calldata = ROUTER.encodeFunctionData('calculateCommitment', [
+    params.token,
+    params.from,
+    params.value,
+    params.validAfter,
+    params.validBefore,
+    params.salt,
+    params.payTo,
+    params.facilitatorFee,
+    params.hook,
+    params.hookData,
+  ]);
+  const fragment = ROUTER.getFunction('calculateCommitment')!;
+  const args = ROUTER.decodeFunctionData(fragment, calldata);
+
+  const packed: Uint8Array[] = [
+    ethers.toUtf8Bytes(COMMITMENT_PREFIX),
+    ethers.getBytes(ethers.zeroPadValue(ethers.toBeHex(chainId), 32)),
+    ethers.getBytes(router),
+  ];
+  fragment.inputs.forEach((input, i) => {
+    switch (input.type) {
+      case 'address':
+        packed.push(ethers.getBytes(args[i]));
+        break;
+      case 'uint256':
+        packed.push(ethers.getBytes(ethers.zeroPadValue(ethers.toBeHex(args[i]), 32)));
+        break;
+      case 'bytes32':
+        packed.push(ethers.getBytes(args[i]));
+        break;
+      case 'bytes':
+        packed.push(ethers.getBytes(ethers.keccak256(args[i])));
+        break;
+      default:
+        throw new Error(`Unexpected ABI type ${input.type}`);
+    }
+  });
+  return ethers.keccak256(ethers.concat(packed));
+}
+
+const ROUTER_ADDRESS = '0x1111111111111111111111111111111111111111';
+
+const BASE_PARAMS: CommitmentParams = {
+  token: '0xc01efAaF7C5C61bEbFAeb358E1161b537b8bC0e0',
+  from: '0x2222222222222222222222222222222222222222',
+  value: 1_000_000n,
+  validAfter: 0,
+  validBefore: 1_900_000_000,
+  salt: ethers.id('salt'),
+  payTo: '0x3333333333333333333333333333333333333333',
+  facilitatorFee: 10_000n,
+  hook: '0x4444444444444444444444444444444444444444',
+  hookData: '0x',
+};
+
+describe('CommitmentCalculator', () => {
+  it.each([
+    ['empty hookData', BASE_PARAMS],
+    ['nft-mint hookData', {
+      ...BASE_PARAMS,
+      hookData: ethers.AbiCoder.defaultAbiCoder().encode(['tuple(address)'], [[BASE_PARAMS.payTo]]),
+    }],
+    ['zero amounts', { ...BASE_PARAMS, value: 0n, facilitatorFee: 0n }],
+    ['max uint256 value', { ...BASE_PARAMS, value: ethers.MaxUint256, validAfter: 1_700_000_000 }],
+    ['zero salt', { ...BASE_PARAMS, salt: ethers.ZeroHash }],
+  ])('matches the calculateCommitment ABI encoding (%s)', (_, params) => {
+    expect(CommitmentCalculator.calculate(ROUTER_ADDRESS, 338, params))
+      .toBe(referenceCommitment(ROUTER_ADDRESS, 338n, params));
+  });
+
+  it('binds the chain ID and router address', () => {
+    const commitment = CommitmentCalculator.calculate(ROUTER_ADDRESS, 338, BASE_PARAMS);
+    expect(CommitmentCalculator.calculate(ROUTER_ADDRESS, 25, BASE_PARAMS)).not.toBe(commitment);
+    expect(CommitmentCalculator.calculate(BASE_PARAMS.hook, 338, BASE_PARAMS)).not.toBe(commitment);
+  });
+
+  it('matches the reference encoding for arbitrary inputs', () => {
+    const address = fc.uint8Array({ minLength: 20, maxLength: 20 }).map((b) => ethers.getAddress(ethers.hexlify(b)));
+    const bytes32 = fc.uint8Array({ minLength: 32, maxLength: 32 }).map((b) => ethers.hexlify(b));
+    const uint256 = fc.bigUintN(256);
+    const uint32 = fc.integer({ min: 0, max: 0xffffffff });
+
+    fc.assert(
+      fc.property(
+        fc.record({
+          token: address,
+          from: address,
+          value: uint256,
+          validAfter: uint32,
+          validBefore: uint32,
+          salt: bytes32,
+          payTo: address,
+          facilitatorFee: uint256,
+          hook: address,
+          hookData: fc.uint8Array({ maxLength: 200 }).map((b) => ethers.hexlify(b)),
+        }),
+        address,
+        fc.bigUintN(64),
+        (params, router, chainId) => {
+          expect(CommitmentCalculator.calculate(router, chainId, params))
+            .toBe(referenceCommitment(router, chainId, params));
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+});
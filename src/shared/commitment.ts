@@ -0,0 +1,59 @@
+import { ethers } from 'ethers';
+import type { CommitmentParams } from './contract-reader.js';
+
+/**
+ * Domain prefix the SettlementRouter mixes into every commitment
+ */
+export const COMMITMENT_PREFIX = 'X402/settle/v1';
+
+/**
+ * Local implementation of SettlementRouter.calculateCommitment.
+ *
+ * Mirrors the contract's
+ * keccak256(abi.encodePacked(prefix, chainid, router, token, from, value, validAfter,
+ * validBefore, salt, payTo, facilitatorFee, hook, keccak256(hookData)))
+ * so nonces can be derived without an RPC call.
+ */
+export class CommitmentCalculator {
+  /**
+   * Calculate the commitment (EIP-3009 nonce) for a settlement
+   */
+  static calculate(
+    routerAddress: string,
+    chainId: number | bigint,
+    params: CommitmentParams
+  ): string {
+    return ethers.solidityPackedKeccak256(
+      [
+        'string',
+        'uint256',
+        'address',
+        'address',
+        'address',
+        'uint256',
+        'uint256',
+        'uint256',
+        'bytes32',
+        'address',
+        'uint256',
+        'address',
+        'bytes32',
+      ],
+      [
+        COMMITMENT_PREFIX,
+        chainId,
+        routerAddress,
+        params.token,
+        params.from,
+        params.value,
+        params.validAfter,
+        params.validBefore,
+        params.salt,
+        params.payTo,
+        params.facilitatorFee,
+        params.hook,
+        ethers.keccak256(params.hookData),
+      ]
+    );
+  }
+}
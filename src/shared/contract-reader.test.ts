@@ -0,0 +1,181 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { ContractReader, HOOK_ABI, MULTICALL3_ABI, MULTICALL3_ADDRESS } from './contract-reader.js';
+import { ContractNotFoundError, NetworkError } from '../errors/index.js';
+
+const TOKEN = '0x3333333333333333333333333333333333333333';
+const AUTHORIZER = '0x5555555555555555555555555555555555555555';
+const NONCE = ethers.id('nonce');
+const CANCELED_LOG = new ethers.Interface([
+  'event AuthorizationCanceled(address indexed authorizer, bytes32 indexed nonce)',
+]).encodeEventLog('AuthorizationCanceled', [AUTHORIZER, NONCE]);
+
+/**
+ * Reader whose provider reports the given head and records each eth_getLogs range
+ */
+function reader(head: number, cancelledAt?: number) {
+  const contractReader = new ContractReader('http://localhost:8545', { multicall: false });
+  const provider = contractReader.getProvider();
+  const ranges: Array<[number, number]> = [];
+  vi.spyOn(provider, 'getBlockNumber').mockResolvedValue(head);
+  vi.spyOn(provider, 'getLogs').mockImplementation(async (filter) => {
+    const { fromBlock, toBlock } = filter as ethers.Filter;
+    const from = Number(fromBlock);
+    const to = Number(toBlock);
+    ranges.push([from, to]);
+    return cancelledAt !== undefined && cancelledAt >= from && cancelledAt <= to
+      ? [{ ...CANCELED_LOG, address: TOKEN, blockNumber: cancelledAt } as unknown as ethers.Log]
+      : [];
+  });
+  return { contractReader, ranges };
+}
+
+describe('ContractReader.isAuthorizationCanceled', () => {
+  it('scans the last 10000 blocks in 2000-block chunks, newest first', async () => {
+    const { contractReader, ranges } = reader(10_500);
+    await expect(contractReader.isAuthorizationCanceled(TOKEN, AUTHORIZER, NONCE)).resolves.toBe(false);
+    expect(ranges).toEqual([
+      [8_501, 10_500],
+      [6_501, 8_500],
+      [4_501, 6_500],
+      [2_501, 4_500],
+      [501, 2_500],
+    ]);
+  });
+
+  it('stops at the first chunk containing a cancellation', async () => {
+    const { contractReader, ranges } = reader(10_500, 9_000);
+    await expect(contractReader.isAuthorizationCanceled(TOKEN, AUTHORIZER, NONCE)).resolves.toBe(true);
+    expect(ranges).toHaveLength(1);
+  });
+
+  it('honours fromBlock and chunkSize and never scans below genesis', async () => {
+    const { contractReader, ranges } = reader(1_200);
+    await contractReader.isAuthorizationCanceled(TOKEN, AUTHORIZER, NONCE, { fromBlock: 200, chunkSize: 500 });
+    expect(ranges).toEqual([[701, 1_200], [201, 700], [200, 200]]);
+
+    const small = reader(50);
+    await small.contractReader.isAuthorizationCanceled(TOKEN, AUTHORIZER, NONCE);
+    expect(small.ranges).toEqual([[0, 50]]);
+  });
+});
+
+describe('ContractReader.contractExists', () => {
+  it('reads empty code as no contract and caches deployed contracts', async () => {
+    const contractReader = new ContractReader('http://localhost:8545', { multicall: false });
+    const getCode = vi.spyOn(contractReader.getProvider(), 'getCode')
+      .mockImplementation(async (address) => (address === TOKEN ? '0x6080' : '0x'));
+
+    await expect(contractReader.contractExists(AUTHORIZER)).resolves.toBe(false);
+    await expect(contractReader.contractExists(TOKEN)).resolves.toBe(true);
+    await expect(contractReader.contractExists(TOKEN)).resolves.toBe(true);
+    expect(getCode).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws a NetworkError when the RPC fails instead of reporting no contract', async () => {
+    const contractReader = new ContractReader('http://localhost:8545', { multicall: false });
+    vi.spyOn(contractReader.getProvider(), 'getCode')
+      .mockRejectedValue(Object.assign(new Error('request timeout'), { code: 'TIMEOUT' }));
+
+    const exists = contractReader.contractExists(TOKEN);
+    await expect(exists).rejects.toThrow(NetworkError);
+    await expect(exists).rejects.toMatchObject({ kind: 'timeout' });
+  });
+});
+
+const HOOK = '0x1111111111111111111111111111111111111111';
+const OTHER_HOOK = '0x2222222222222222222222222222222222222222';
+const ROUTER = '0x4444444444444444444444444444444444444444';
+const HOOK_INTERFACE = new ethers.Interface(HOOK_ABI);
+const MULTICALL3_INTERFACE = new ethers.Interface(MULTICALL3_ABI);
+
+/**
+ * Reader over a chain where HOOK answers settlementRouter() and other addresses revert.
+ * Multicall3 is answered per call unless `deployed` is false
+ */
+function chain(options: { deployed?: boolean; cacheTtlMs?: number; multicall?: boolean } = {}) {
+  const contractReader = new ContractReader('http://localhost:8545', {
+    multicall: options.multicall ?? true,
+    cacheTtlMs: options.cacheTtlMs,
+  });
+  const answer = (target: string) =>
+    target.toLowerCase() === HOOK.toLowerCase()
+      ? { success: true, returnData: HOOK_INTERFACE.encodeFunctionResult('settlementRouter', [ROUTER]) }
+      : { success: false, returnData: '0x' };
+  const call = vi.spyOn(contractReader.getProvider(), 'call').mockImplementation(async (tx) => {
+    if (tx.to === MULTICALL3_ADDRESS) {
+      if (options.deployed === false) {
+        return '0x';
+      }
+      const [calls] = MULTICALL3_INTERFACE.decodeFunctionData('aggregate3', tx.data!);
+      const results = (calls as Array<{ target: string }>).map(({ target }) => answer(target));
+      return MULTICALL3_INTERFACE.encodeFunctionResult('aggregate3', [results.map((r) => [r.success, r.returnData])]);
+    }
+    const { success, returnData } = answer(tx.to as string);
+    if (!success) {
+      throw Object.assign(new Error('execution reverted (call revert)'), { code: 'CALL_EXCEPTION' });
+    }
+    return returnData;
+  });
+  return { contractReader, call };
+}
+
+describe('ContractReader Multicall3 batching', () => {
+  it('splits a batch so one failing call does not fail the others', async () => {
+    const { contractReader, call } = chain();
+    const [router, missing] = await Promise.allSettled([
+      contractReader.getSettlementRouter(HOOK),
+      contractReader.getSettlementRouter(OTHER_HOOK),
+    ]);
+
+    expect(router).toEqual({ status: 'fulfilled', value: ROUTER });
+    expect(missing).toMatchObject({ status: 'rejected', reason: expect.any(ContractNotFoundError) });
+    expect(call).toHaveBeenCalledTimes(1);
+    expect(contractReader.getStats()).toMatchObject({ rpcCalls: 1, multicallBatches: 1, batchedReads: 2 });
+  });
+
+  it('falls back to direct calls and stops batching when Multicall3 is not deployed', async () => {
+    const { contractReader, call } = chain({ deployed: false });
+    const reads = () => Promise.allSettled([
+      contractReader.getSettlementRouter(HOOK),
+      contractReader.getSettlementRouter(OTHER_HOOK),
+    ]);
+
+    const [router, missing] = await reads();
+    expect(router).toEqual({ status: 'fulfilled', value: ROUTER });
+    expect(missing).toMatchObject({ status: 'rejected', reason: expect.any(ContractNotFoundError) });
+    expect(call.mock.calls.map(([tx]) => tx.to)).toEqual([MULTICALL3_ADDRESS, HOOK, OTHER_HOOK]);
+
+    contractReader.clearCache();
+    call.mockClear();
+    await reads();
+    expect(call.mock.calls.map(([tx]) => tx.to)).toEqual([HOOK, OTHER_HOOK]);
+    expect(contractReader.getStats().multicallBatches).toBe(0);
+  });
+});
+
+describe('ContractReader cache', () => {
+  it('serves cached reads until the TTL expires', async () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    const { contractReader, call } = chain({ multicall: false, cacheTtlMs: 5_000 });
+
+    await contractReader.getSettlementRouter(HOOK);
+    now.mockReturnValue(1_004_999);
+    await contractReader.getSettlementRouter(HOOK);
+    expect(call).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(1_005_000);
+    await expect(contractReader.getSettlementRouter(HOOK)).resolves.toBe(ROUTER);
+    expect(call).toHaveBeenCalledTimes(2);
+    expect(contractReader.getStats()).toMatchObject({ cacheHits: 1, cacheMisses: 2 });
+    now.mockRestore();
+  });
+
+  it('does not cache failed reads', async () => {
+    const { contractReader, call } = chain({ multicall: false });
+    await expect(contractReader.getSettlementRouter(OTHER_HOOK)).rejects.toThrow(ContractNotFoundError);
+    await expect(contractReader.getSettlementRouter(OTHER_HOOK)).rejects.toThrow(ContractNotFoundError);
+    expect(call).toHaveBeenCalledTimes(2);
+    expect(contractReader.getStats().cacheEntries).toBe(0);
+  });
+});
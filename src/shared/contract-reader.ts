@@ -1,5 +1,7 @@
 import { ethers } from 'ethers';
 import { ContractNotFoundError, NetworkError } from '../errors/index.js';
+import { RpcErrorClassifier, createRpcProvider } from './rpc-provider.js';
+import type { RpcOptions } from './rpc-provider.js';
 import type { TokenInfo } from './types.js';
 
 /**
@@ -23,8 +25,46 @@ const SETTLEMENT_ROUTER_ABI = [
 const TOKEN_ABI = [
   'function name() view returns (string)',
   'function version() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function authorizationState(address authorizer, bytes32 nonce) view returns (bool)',
+  'function cancelAuthorization(address authorizer, bytes32 nonce, uint8 v, bytes32 r, bytes32 s) external',
+  'event AuthorizationCanceled(address indexed authorizer, bytes32 indexed nonce)',
 ];
 
+/**
+ * ABI for EIP-1271 smart-contract wallets
+ */
+const EIP1271_ABI = [
+  'function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)',
+];
+
+/**
+ * Magic value returned by isValidSignature for a valid signature
+ */
+const EIP1271_MAGIC_VALUE = '0x1626ba7e';
+
+/**
+ * Block range for scanning authorization logs
+ */
+export interface AuthorizationLogOptions {
+  /** First block to scan; overrides lookbackBlocks */
+  fromBlock?: number;
+  /** Blocks before the head to scan when fromBlock is not set (default 10000) */
+  lookbackBlocks?: number;
+  /** Blocks per eth_getLogs request (default 2000) */
+  chunkSize?: number;
+}
+
+/**
+ * Default window for cancellation log scans
+ */
+const DEFAULT_LOOKBACK_BLOCKS = 10_000;
+
+/**
+ * Default eth_getLogs range; public Cronos RPCs reject wider ranges
+ */
+const DEFAULT_LOG_CHUNK_SIZE = 2_000;
+
 /**
  * Parameters for calculating commitment
  */
@@ -42,32 +82,111 @@ export interface CommitmentParams {
 }
 
 /**
- * Utility class for reading data from on-chain contracts
+ * Canonical Multicall3 deployment (same address on Cronos and most EVM chains)
+ */
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+/**
+ * ABI for Multicall3
+ */
+const MULTICALL3_ABI = [
+  'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)',
+];
+
+/**
+ * ContractReader batching and caching options
+ */
+export interface ContractReaderOptions {
+  /** Batch concurrent reads through Multicall3 (default true); a string overrides its address */
+  multicall?: boolean | string;
+  /** How long to collect reads before sending a batch (default 0: the current tick) */
+  batchWindowMs?: number;
+  /** Maximum calls per Multicall3 batch */
+  maxBatchSize?: number;
+  /** Lifetime of cached token info and hook routers (default 1 hour; 0 disables caching) */
+  cacheTtlMs?: number;
+  /** Failover, retries and rate limiting for the RPC endpoints */
+  rpc?: RpcOptions;
+}
+
+/**
+ * Cache and RPC counters for a ContractReader
+ */
+export interface ContractReaderStats {
+  cacheHits: number;
+  cacheMisses: number;
+  cacheEntries: number;
+  /** eth_call and eth_getCode requests sent, each Multicall3 batch counting once */
+  rpcCalls: number;
+  multicallBatches: number;
+  /** Reads that were sent inside a Multicall3 batch */
+  batchedReads: number;
+}
+
+interface PendingRead {
+  target: string;
+  callData: string;
+  resolve: (returnData: string) => void;
+  reject: (error: unknown) => void;
+}
+
+const HOOK_INTERFACE = new ethers.Interface(HOOK_ABI);
+const ROUTER_INTERFACE = new ethers.Interface(SETTLEMENT_ROUTER_ABI);
+const TOKEN_INTERFACE = new ethers.Interface(TOKEN_ABI);
+const EIP1271_INTERFACE = new ethers.Interface(EIP1271_ABI);
+const MULTICALL3_INTERFACE = new ethers.Interface(MULTICALL3_ABI);
+
+/**
+ * Utility class for reading data from on-chain contracts.
+ * Concurrent reads are batched through Multicall3 and immutable values are cached.
  */
 export class ContractReader {
-  private provider: ethers.JsonRpcProvider;
+  private provider: ethers.AbstractProvider;
+  private multicallAddress?: string;
+  private batchWindowMs: number;
+  private maxBatchSize: number;
+  private cacheTtlMs: number;
+  private cache: Map<string, { value: Promise<unknown>; expiresAt: number }> = new Map();
+  private queue: PendingRead[] = [];
+  private flushScheduled = false;
+  private stats: Omit<ContractReaderStats, 'cacheEntries'> = {
+    cacheHits: 0,
+    cacheMisses: 0,
+    rpcCalls: 0,
+    multicallBatches: 0,
+    batchedReads: 0,
+  };
 
-  constructor(rpcUrl: string) {
-    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+  /**
+   * Several URLs are used for failover, in order of preference
+   */
+  constructor(rpcUrl: string | string[], options: ContractReaderOptions = {}) {
+    this.provider = createRpcProvider(rpcUrl, options.rpc);
+    const multicall = options.multicall ?? true;
+    this.multicallAddress = multicall === true ? MULTICALL3_ADDRESS : multicall || undefined;
+    this.batchWindowMs = options.batchWindowMs ?? 0;
+    this.maxBatchSize = options.maxBatchSize ?? 100;
+    this.cacheTtlMs = options.cacheTtlMs ?? 60 * 60 * 1000;
   }
 
   /**
    * Read the settlement router address from a hook contract
    */
   async getSettlementRouter(hookAddress: string): Promise<string> {
-    try {
-      const hook = new ethers.Contract(hookAddress, HOOK_ABI, this.provider);
-      const routerAddress = await hook.settlementRouter();
-      return routerAddress;
-    } catch (error) {
-      if (error instanceof Error) {
-        if (error.message.includes('call revert') || error.message.includes('CALL_EXCEPTION')) {
-          throw new ContractNotFoundError(hookAddress);
+    return this.cached(`router:${hookAddress.toLowerCase()}`, async () => {
+      try {
+        const [routerAddress] = await this.read(hookAddress, HOOK_INTERFACE, 'settlementRouter');
+        return routerAddress as string;
+      } catch (error) {
+        if (error instanceof Error) {
+          if (error.message.includes('call revert') || error.message.includes('CALL_EXCEPTION')) {
+            throw new ContractNotFoundError(hookAddress);
+          }
+          throw rpcError('Failed to read settlement router', error);
         }
-        throw new NetworkError(`Failed to read settlement router: ${error.message}`);
+        throw error;
       }
-      throw error;
-    }
+    });
   }
 
   /**
@@ -78,13 +197,7 @@ export class ContractReader {
     params: CommitmentParams
   ): Promise<string> {
     try {
-      const router = new ethers.Contract(
-        routerAddress,
-        SETTLEMENT_ROUTER_ABI,
-        this.provider
-      );
-
-      const commitment = await router.calculateCommitment(
+      const [commitment] = await this.read(routerAddress, ROUTER_INTERFACE, 'calculateCommitment', [
         params.token,
         params.from,
         params.value,
@@ -94,55 +207,294 @@ export class ContractReader {
         params.payTo,
         params.facilitatorFee,
         params.hook,
-        params.hookData
-      );
+        params.hookData,
+      ]);
 
-      return commitment;
+      return commitment as string;
     } catch (error) {
       if (error instanceof Error) {
-        throw new NetworkError(`Failed to calculate commitment: ${error.message}`);
+        throw rpcError('Failed to calculate commitment', error);
       }
       throw error;
     }
   }
 
   /**
-   * Get token info for EIP-712 domain
+   * Get token info for EIP-712 domain and amount parsing
    */
   async getTokenInfo(tokenAddress: string): Promise<TokenInfo> {
+    const info = await this.cached(`token:${tokenAddress.toLowerCase()}`, async () => {
+      try {
+        const [[name], [version], [decimals]] = await Promise.all([
+          this.read(tokenAddress, TOKEN_INTERFACE, 'name'),
+          this.read(tokenAddress, TOKEN_INTERFACE, 'version'),
+          this.read(tokenAddress, TOKEN_INTERFACE, 'decimals'),
+        ]);
+        return { name: name as string, version: version as string, decimals: Number(decimals) };
+      } catch (error) {
+        if (error instanceof Error) {
+          throw rpcError('Failed to read token info', error);
+        }
+        throw error;
+      }
+    });
+    return { ...info };
+  }
+
+  /**
+   * Check whether an EIP-3009 authorization nonce has been used or cancelled
+   */
+  async getAuthorizationState(
+    tokenAddress: string,
+    authorizer: string,
+    nonce: string
+  ): Promise<boolean> {
+    try {
+      const [state] = await this.read(tokenAddress, TOKEN_INTERFACE, 'authorizationState', [authorizer, nonce]);
+      return state as boolean;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw rpcError('Failed to read authorization state', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether an authorization was cancelled (rather than used) from token logs.
+   * Scans from `fromBlock`, or the last `lookbackBlocks` blocks (default 10000), newest
+   * first in chunks small enough for RPCs that cap eth_getLogs ranges
+   */
+  async isAuthorizationCanceled(
+    tokenAddress: string,
+    authorizer: string,
+    nonce: string,
+    options: AuthorizationLogOptions = {}
+  ): Promise<boolean> {
     try {
       const token = new ethers.Contract(tokenAddress, TOKEN_ABI, this.provider);
-      const [name, version] = await Promise.all([
-        token.name(),
-        token.version(),
-      ]);
-      return { name, version };
+      const filter = token.filters.AuthorizationCanceled(authorizer, nonce);
+      const head = await this.provider.getBlockNumber();
+      const fromBlock = Math.max(
+        options.fromBlock ?? head - (options.lookbackBlocks ?? DEFAULT_LOOKBACK_BLOCKS) + 1,
+        0
+      );
+      const chunkSize = options.chunkSize ?? DEFAULT_LOG_CHUNK_SIZE;
+      for (let to = head; to >= fromBlock; to -= chunkSize) {
+        const logs = await token.queryFilter(filter, Math.max(to - chunkSize + 1, fromBlock), to);
+        if (logs.length > 0) {
+          return true;
+        }
+      }
+      return false;
     } catch (error) {
       if (error instanceof Error) {
-        throw new NetworkError(`Failed to read token info: ${error.message}`);
+        throw rpcError('Failed to read cancellation logs', error);
       }
       throw error;
     }
   }
 
   /**
-   * Check if a contract exists at an address
+   * Check if a contract exists at an address. Only positive answers are cached.
+   * RPC failures throw a NetworkError rather than reading as "no contract"
    */
   async contractExists(address: string): Promise<boolean> {
+    const key = `code:${address.toLowerCase()}`;
+    const entry = this.cache.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.stats.cacheHits++;
+      return true;
+    }
+    this.stats.cacheMisses++;
     try {
+      this.stats.rpcCalls++;
       const code = await this.provider.getCode(address);
+      if (code !== '0x' && this.cacheTtlMs > 0) {
+        this.cache.set(key, { value: Promise.resolve(true), expiresAt: Date.now() + this.cacheTtlMs });
+      }
       return code !== '0x';
-    } catch {
-      return false;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw rpcError(`Failed to read code at ${address}`, error);
+      }
+      throw error;
     }
   }
 
+  /**
+   * Check a signature with an EIP-1271 smart-contract wallet
+   */
+  async isValidSignature(
+    walletAddress: string,
+    hash: string,
+    signature: string
+  ): Promise<boolean> {
+    try {
+      const [result] = await this.read(walletAddress, EIP1271_INTERFACE, 'isValidSignature', [hash, signature]);
+      return (result as string).toLowerCase() === EIP1271_MAGIC_VALUE;
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes('call revert') || error.message.includes('CALL_EXCEPTION')) {
+          return false;
+        }
+        throw rpcError('Failed to check contract signature', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Cache and RPC counters
+   */
+  getStats(): ContractReaderStats {
+    return { ...this.stats, cacheEntries: this.cache.size };
+  }
+
+  /**
+   * Drop all cached values
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
   /**
    * Get the underlying provider
    */
-  getProvider(): ethers.JsonRpcProvider {
+  getProvider(): ethers.AbstractProvider {
     return this.provider;
   }
+
+  /**
+   * Return a cached value or load it once; concurrent callers share the same load
+   */
+  private async cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const entry = this.cache.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.stats.cacheHits++;
+      return entry.value as Promise<T>;
+    }
+    this.stats.cacheMisses++;
+    const value = load();
+    if (this.cacheTtlMs > 0) {
+      this.cache.set(key, { value, expiresAt: Date.now() + this.cacheTtlMs });
+      value.catch(() => {
+        if (this.cache.get(key)?.value === value) {
+          this.cache.delete(key);
+        }
+      });
+    }
+    return value;
+  }
+
+  /**
+   * eth_call a view function, batched with other reads when Multicall3 is enabled.
+   * Reverts and calls to addresses without code fail with a CALL_EXCEPTION error
+   */
+  private async read(
+    target: string,
+    iface: ethers.Interface,
+    method: string,
+    args: unknown[] = []
+  ): Promise<ethers.Result> {
+    const callData = iface.encodeFunctionData(method, args);
+    const returnData = this.multicallAddress
+      ? await new Promise<string>((resolve, reject) => {
+        this.queue.push({ target, callData, resolve, reject });
+        this.scheduleFlush();
+      })
+      : await this.callDirect(target, callData);
+
+    if (returnData === '0x') {
+      throw new Error(`CALL_EXCEPTION: ${method}() returned no data from ${target}`);
+    }
+    return iface.decodeFunctionResult(method, returnData);
+  }
+
+  private scheduleFlush(): void {
+    if (this.queue.length >= this.maxBatchSize) {
+      this.flush();
+      return;
+    }
+    if (!this.flushScheduled) {
+      this.flushScheduled = true;
+      setTimeout(() => this.flush(), this.batchWindowMs);
+    }
+  }
+
+  /**
+   * Send queued reads: one directly, several through Multicall3
+   */
+  private flush(): void {
+    this.flushScheduled = false;
+    const batch = this.queue.splice(0, this.maxBatchSize);
+    if (this.queue.length > 0) {
+      this.scheduleFlush();
+    }
+    if (batch.length === 0) {
+      return;
+    }
+    if (batch.length === 1 || !this.multicallAddress) {
+      this.sendIndividually(batch);
+      return;
+    }
+    this.sendMulticall(this.multicallAddress, batch).catch(() => this.sendIndividually(batch));
+  }
+
+  private async sendMulticall(multicallAddress: string, batch: PendingRead[]): Promise<void> {
+    const callData = MULTICALL3_INTERFACE.encodeFunctionData('aggregate3', [
+      batch.map((read) => ({ target: read.target, allowFailure: true, callData: read.callData })),
+    ]);
+    const returnData = await this.callDirect(multicallAddress, callData);
+    if (returnData === '0x') {
+      // No Multicall3 on this chain: stop batching
+      this.multicallAddress = undefined;
+      throw new Error('Multicall3 not deployed');
+    }
+
+    const [results] = MULTICALL3_INTERFACE.decodeFunctionResult('aggregate3', returnData);
+    this.stats.multicallBatches++;
+    this.stats.batchedReads += batch.length;
+    batch.forEach((read, i) => {
+      const { success, returnData: data } = results[i] as { success: boolean; returnData: string };
+      if (success) {
+        read.resolve(data);
+      } else {
+        read.reject(new Error(`CALL_EXCEPTION: call reverted at ${read.target} (call revert)`));
+      }
+    });
+  }
+
+  private sendIndividually(batch: PendingRead[]): void {
+    for (const read of batch) {
+      this.callDirect(read.target, read.callData).then(read.resolve, read.reject);
+    }
+  }
+
+  private callDirect(target: string, data: string): Promise<string> {
+    this.stats.rpcCalls++;
+    return this.provider.call({ to: target, data });
+  }
+}
+
+/**
+ * Wrap a provider failure in a NetworkError that records what kind of failure it was
+ */
+function rpcError(action: string, error: Error): NetworkError {
+  return new NetworkError(
+    `${action}: ${error.message}`,
+    undefined,
+    undefined,
+    RpcErrorClassifier.classify(error)
+  );
 }
 
-export { SETTLEMENT_ROUTER_ABI, HOOK_ABI, TOKEN_ABI };
+export {
+  SETTLEMENT_ROUTER_ABI,
+  HOOK_ABI,
+  TOKEN_ABI,
+  EIP1271_ABI,
+  EIP1271_MAGIC_VALUE,
+  MULTICALL3_ABI,
+  MULTICALL3_ADDRESS,
+};
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { EventDecoder } from './event-decoder.js';
+
+const ROUTER = '0x1111111111111111111111111111111111111111';
+const HOOK = '0x2222222222222222222222222222222222222222';
+const TOKEN = '0x3333333333333333333333333333333333333333';
+const PAYER = '0x4444444444444444444444444444444444444444';
+const PAY_TO = '0x5555555555555555555555555555555555555555';
+const ATTACKER = '0x6666666666666666666666666666666666666666';
+
+function log(address: string, event: string, args: unknown[]): ethers.Log {
+  const { topics, data } = EventDecoder.getInterface().encodeEventLog(event, args);
+  return { address, topics, data } as unknown as ethers.Log;
+}
+
+const settled = (address: string, amount: bigint) =>
+  log(address, 'Settled', [ethers.id('context'), PAYER, TOKEN, amount, HOOK, ethers.id('salt'), PAY_TO, 0n]);
+
+describe('EventDecoder.summarize', () => {
+  it('reads the settlement and hook outcome from the router and hook', () => {
+    const events = EventDecoder.decodeLogs([
+      settled(ROUTER, 1_000_000n),
+      log(HOOK, 'NFTMinted', [PAYER, TOKEN, 7n]),
+      log(HOOK, 'RewardDistributed', [PAYER, TOKEN, 5n]),
+      log(ROUTER, 'RewardDistributed', [PAYER, TOKEN, 2n]),
+      log(HOOK, 'SplitPayment', [TOKEN, PAY_TO, 900_000n]),
+    ]);
+    expect(EventDecoder.summarize(events, { router: ROUTER, hook: HOOK.toLowerCase() })).toEqual({
+      settlement: expect.objectContaining({ amount: 1_000_000n, payTo: PAY_TO }),
+      mintedTokenId: 7n,
+      rewardPoints: 7n,
+      splits: [{ recipient: PAY_TO, amount: 900_000n }],
+    });
+  });
+
+  it('ignores outcome events emitted by other contracts in the transaction', () => {
+    const events = EventDecoder.decodeLogs([
+      settled(ROUTER, 1_000_000n),
+      settled(ATTACKER, 1n),
+      log(ATTACKER, 'NFTMinted', [PAYER, TOKEN, 99n]),
+      log(TOKEN, 'RewardDistributed', [PAYER, TOKEN, 1_000n]),
+      log(ATTACKER, 'SplitPayment', [TOKEN, ATTACKER, 1n]),
+    ]);
+    expect(EventDecoder.summarize(events, { router: ROUTER, hook: HOOK })).toEqual({
+      settlement: expect.objectContaining({ amount: 1_000_000n }),
+    });
+  });
+
+  it('only takes Settled from the router, not the hook', () => {
+    const events = EventDecoder.decodeLogs([settled(HOOK, 1n)]);
+    expect(EventDecoder.summarize(events, { router: ROUTER, hook: HOOK })).toEqual({});
+  });
+
+  it('counts hook events from the router when no hook is given', () => {
+    const events = EventDecoder.decodeLogs([log(ROUTER, 'NFTMinted', [PAYER, TOKEN, 3n]), log(HOOK, 'NFTMinted', [PAYER, TOKEN, 4n])]);
+    expect(EventDecoder.summarize(events, { router: ROUTER })).toEqual({ mintedTokenId: 3n });
+  });
+});
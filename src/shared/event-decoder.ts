@@ -0,0 +1,118 @@
+import { ethers } from 'ethers';
+import { HookRegistry } from './hook-registry.js';
+import type {
+  SettlementOutcome,
+  TransactionEvent,
+} from './types.js';
+
+/**
+ * Events emitted by the SettlementRouter
+ */
+const SETTLEMENT_ROUTER_EVENTS_ABI = [
+  'event Settled(bytes32 indexed contextKey, address indexed sender, address indexed token, uint256 amount, address hook, bytes32 salt, address payTo, uint256 facilitatorFee)',
+  'event FeeAccumulated(address indexed facilitator, address indexed token, uint256 amount)',
+  'event FeesClaimed(address indexed facilitator, address indexed token, uint256 amount)',
+];
+
+/**
+ * Events emitted by EIP-3009 tokens
+ */
+const TOKEN_EVENTS_ABI = [
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event AuthorizationUsed(address indexed authorizer, bytes32 indexed nonce)',
+  'event AuthorizationCanceled(address indexed authorizer, bytes32 indexed nonce)',
+];
+
+/**
+ * Decoder for logs emitted during settleAndExecute by the router, token and hooks
+ */
+export class EventDecoder {
+  /**
+   * Build an interface from router, token and all registered hook events.
+   * Rebuilt per call so hooks registered later are picked up.
+   */
+  static getInterface(): ethers.Interface {
+    const fragments = new Set<string>([...SETTLEMENT_ROUTER_EVENTS_ABI, ...TOKEN_EVENTS_ABI]);
+    for (const hookType of HookRegistry.list()) {
+      for (const event of HookRegistry.get(hookType)?.events ?? []) {
+        fragments.add(event);
+      }
+    }
+    return new ethers.Interface(Array.from(fragments));
+  }
+
+  /**
+   * Decode receipt logs; unknown logs are returned as { name: 'Unknown' }
+   */
+  static decodeLogs(logs: ReadonlyArray<ethers.Log>): TransactionEvent[] {
+    const iface = this.getInterface();
+    return logs.map((log) => {
+      try {
+        const parsed = iface.parseLog({
+          topics: log.topics as string[],
+          data: log.data,
+        });
+        if (parsed) {
+          return {
+            name: parsed.name,
+            address: log.address,
+            args: Object.fromEntries(
+              parsed.fragment.inputs.map((input, i) => [input.name, parsed.args[i]])
+            ),
+          };
+        }
+      } catch {
+        // Ignore unparseable logs (e.g. ERC-721 Transfer with an indexed token ID)
+      }
+      return { name: 'Unknown', address: log.address, args: {} };
+    });
+  }
+
+  /**
+   * Extract the typed settlement and hook outcome from decoded events. Only events emitted
+   * by the router (Settled) or by the hook or router (hook events) are counted, so other
+   * contracts in the transaction cannot fake an outcome
+   */
+  static summarize(events: TransactionEvent[], emitters: { router: string; hook?: string }): SettlementOutcome {
+    const outcome: SettlementOutcome = {};
+    const from = (event: TransactionEvent, ...addresses: Array<string | undefined>) =>
+      addresses.some((address) => address && event.address?.toLowerCase() === address.toLowerCase());
+
+    for (const event of events) {
+      const { args } = event;
+      if (!from(event, emitters.router, event.name === 'Settled' ? undefined : emitters.hook)) {
+        continue;
+      }
+      switch (event.name) {
+        case 'Settled':
+          outcome.settlement = {
+            contextKey: args.contextKey as string,
+            payer: args.sender as string,
+            token: args.token as string,
+            amount: args.amount as bigint,
+            hook: args.hook as string,
+            salt: args.salt as string,
+            payTo: args.payTo as string,
+            facilitatorFee: args.facilitatorFee as bigint,
+          };
+          break;
+        case 'NFTMinted':
+          outcome.mintedTokenId = args.tokenId as bigint;
+          break;
+        case 'RewardDistributed':
+          outcome.rewardPoints = (outcome.rewardPoints ?? 0n) + (args.amount as bigint);
+          break;
+        case 'SplitPayment':
+          outcome.splits = [
+            ...(outcome.splits ?? []),
+            { recipient: args.recipient as string, amount: args.amount as bigint },
+          ];
+          break;
+      }
+    }
+
+    return outcome;
+  }
+}
+
+export { SETTLEMENT_ROUTER_EVENTS_ABI, TOKEN_EVENTS_ABI };
@@ -0,0 +1,198 @@
+import { ethers } from 'ethers';
+import { ConfigurationError } from '../errors/index.js';
+import type {
+  HookType,
+  HookDataParams,
+  HookDefinition,
+  JsonSchema,
+  NFTMintHookData,
+  RewardPointsHookData,
+  TransferSplitHookData,
+} from './types.js';
+
+const abiCoder = ethers.AbiCoder.defaultAbiCoder();
+
+const ADDRESS_SCHEMA: JsonSchema = { type: 'string', pattern: '^0x[0-9a-fA-F]{40}$' };
+
+/**
+ * NFT mint hook: hookData is the NFT contract to mint from
+ */
+const NFT_MINT_HOOK: HookDefinition<NFTMintHookData> = {
+  type: 'nft-mint',
+  abiType: 'tuple(address)',
+  description: 'NFT contract address to mint from',
+  example: '{ "nftContract": "0x..." }',
+  encode: (params) => abiCoder.encode(['tuple(address)'], [[params.nftContract]]),
+  decode: (hookData) => {
+    if (hookData === '0x' || hookData === '') {
+      throw new Error('NFT mint hookData cannot be empty');
+    }
+    const decoded = abiCoder.decode(['tuple(address)'], hookData);
+    return { type: 'nft-mint', nftContract: decoded[0][0] };
+  },
+  validate: (params) => ethers.isAddress(params.nftContract),
+  events: [
+    'event NFTMinted(address indexed recipient, address indexed nftContract, uint256 tokenId)',
+  ],
+  defaultParams: (service) => {
+    const nftContract = service.supportingContracts?.nftContract;
+    return nftContract ? { type: 'nft-mint', nftContract } : undefined;
+  },
+  paramsSchema: {
+    type: 'object',
+    required: ['nftContract'],
+    properties: { nftContract: { ...ADDRESS_SCHEMA, description: 'NFT contract to mint from' } },
+  },
+};
+
+/**
+ * Reward points hook: hookData is the reward token to distribute
+ */
+const REWARD_POINTS_HOOK: HookDefinition<RewardPointsHookData> = {
+  type: 'reward-points',
+  abiType: 'tuple(address)',
+  description: 'Reward token contract address',
+  example: '{ "rewardToken": "0x..." }',
+  encode: (params) => abiCoder.encode(['tuple(address)'], [[params.rewardToken]]),
+  decode: (hookData) => {
+    if (hookData === '0x' || hookData === '') {
+      throw new Error('Reward points hookData cannot be empty');
+    }
+    const decoded = abiCoder.decode(['tuple(address)'], hookData);
+    return { type: 'reward-points', rewardToken: decoded[0][0] };
+  },
+  validate: (params) => ethers.isAddress(params.rewardToken),
+  events: [
+    'event RewardDistributed(address indexed recipient, address indexed rewardToken, uint256 amount)',
+  ],
+  defaultParams: (service) => {
+    const rewardToken = service.supportingContracts?.rewardToken;
+    return rewardToken ? { type: 'reward-points', rewardToken } : undefined;
+  },
+  paramsSchema: {
+    type: 'object',
+    required: ['rewardToken'],
+    properties: { rewardToken: { ...ADDRESS_SCHEMA, description: 'Reward token to distribute' } },
+  },
+};
+
+/**
+ * Transfer/split hook: hookData is an optional list of recipients with basis points
+ */
+const TRANSFER_SPLIT_HOOK: HookDefinition<TransferSplitHookData> = {
+  type: 'transfer-split',
+  abiType: 'tuple(address recipient, uint16 bips)[]',
+  description:
+    'Array of split recipients with basis points (10000 = 100%). Empty for simple transfer.',
+  example:
+    '{ "splits": [{ "recipient": "0x...", "bips": 5000 }, { "recipient": "0x...", "bips": 5000 }] }',
+  encode: (params) => {
+    if (!params.splits || params.splits.length === 0) {
+      return '0x';
+    }
+    const splits = params.splits.map((s) => ({
+      recipient: s.recipient,
+      bips: s.bips,
+    }));
+    return abiCoder.encode(['tuple(address recipient, uint16 bips)[]'], [splits]);
+  },
+  decode: (hookData) => {
+    if (hookData === '0x' || hookData === '') {
+      return { type: 'transfer-split', splits: undefined };
+    }
+    const decoded = abiCoder.decode(['tuple(address recipient, uint16 bips)[]'], hookData);
+    const splits = decoded[0].map((s: { recipient: string; bips: bigint }) => ({
+      recipient: s.recipient,
+      bips: Number(s.bips),
+    }));
+    return { type: 'transfer-split', splits };
+  },
+  validate: (params) => {
+    if (!params.splits || params.splits.length === 0) {
+      return true; // Empty splits is valid
+    }
+    // Check all recipients are valid addresses and bips sum to 10000
+    const allValidAddresses = params.splits.every((s) => ethers.isAddress(s.recipient));
+    const totalBips = params.splits.reduce((sum, s) => sum + s.bips, 0);
+    return allValidAddresses && totalBips === 10000;
+  },
+  events: [
+    'event SplitPayment(address indexed token, address indexed recipient, uint256 amount)',
+  ],
+  defaultParams: () => ({ type: 'transfer-split' }),
+  paramsSchema: {
+    type: 'object',
+    properties: {
+      splits: {
+        type: 'array',
+        description: 'Omit or leave empty for a simple transfer; bips must sum to 10000',
+        items: {
+          type: 'object',
+          required: ['recipient', 'bips'],
+          properties: {
+            recipient: ADDRESS_SCHEMA,
+            bips: { type: 'integer', minimum: 0, maximum: 10000 },
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Registry of hook definitions honoured by HookDataCodec, X402Server and X402Client
+ */
+export class HookRegistry {
+  private static definitions: Map<HookType, HookDefinition> = new Map<HookType, HookDefinition>([
+    [NFT_MINT_HOOK.type, NFT_MINT_HOOK as HookDefinition],
+    [REWARD_POINTS_HOOK.type, REWARD_POINTS_HOOK as HookDefinition],
+    [TRANSFER_SPLIT_HOOK.type, TRANSFER_SPLIT_HOOK as HookDefinition],
+  ]);
+
+  /**
+   * Register a custom hook definition. Pass override to replace an existing type
+   */
+  static register<P extends HookDataParams>(
+    definition: HookDefinition<P>,
+    options: { override?: boolean } = {}
+  ): void {
+    if (!definition.type || !definition.abiType) {
+      throw new ConfigurationError(
+        'Hook definition requires type and abiType',
+        ['type', 'abiType'].filter((f) => !definition[f as keyof HookDefinition<P>])
+      );
+    }
+    if (this.definitions.has(definition.type) && !options.override) {
+      throw new ConfigurationError(`Hook type already registered: ${definition.type}`);
+    }
+    this.definitions.set(definition.type, definition as HookDefinition);
+  }
+
+  /**
+   * Remove a hook definition
+   */
+  static unregister(hookType: HookType): boolean {
+    return this.definitions.delete(hookType);
+  }
+
+  /**
+   * Get the definition for a hook type
+   */
+  static get(hookType: HookType): HookDefinition | undefined {
+    return this.definitions.get(hookType);
+  }
+
+  /**
+   * Check if a hook type is registered
+   */
+  static has(hookType: string): hookType is HookType {
+    return this.definitions.has(hookType);
+  }
+
+  /**
+   * List all registered hook types
+   */
+  static list(): HookType[] {
+    return Array.from(this.definitions.keys());
+  }
+}
@@ -2,3 +2,12 @@ export * from './types.js';
 export * from './network-config.js';
 export * from './hook-data-codec.js';
 export * from './contract-reader.js';
+export * from './transaction-serializer.js';
+export * from './settlement-executor.js';
+export * from './commitment.js';
+export * from './signature-verifier.js';
+export * from './revert-decoder.js';
+export * from './hook-registry.js';
+export * from './event-decoder.js';
+export * from './agent-card.js';
+export * from './rpc-provider.js';
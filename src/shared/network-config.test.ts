@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { NetworkConfig } from './network-config.js';
+import { ConfigurationError } from '../errors/index.js';
+import type { NetworkDefinition } from './types.js';
+
+const ANVIL: NetworkDefinition = {
+  name: 'anvil-resolve-test',
+  chainId: 31337,
+  rpcUrl: 'http://127.0.0.1:8545',
+  usdcAddress: '0x3333333333333333333333333333333333333333',
+  blockExplorer: '',
+};
+
+describe('NetworkConfig.resolve', () => {
+  it('registers a new definition and returns its name', () => {
+    expect(NetworkConfig.resolve(ANVIL)).toBe(ANVIL.name);
+    expect(NetworkConfig.getChainId(ANVIL.name)).toBe(31337);
+  });
+
+  it('accepts an identical definition again', () => {
+    NetworkConfig.resolve(ANVIL);
+    expect(NetworkConfig.resolve({ ...ANVIL })).toBe(ANVIL.name);
+  });
+
+  it('refuses to redefine a built-in network', () => {
+    const cronos = { ...NetworkConfig.getDefaultConfig('cronos'), name: 'cronos' };
+    expect(NetworkConfig.resolve(cronos)).toBe('cronos');
+    expect(() => NetworkConfig.resolve({ ...cronos, chainId: 31337 })).toThrow(ConfigurationError);
+    expect(NetworkConfig.getChainId('cronos')).toBe(25);
+  });
+
+  it('refuses to redefine a registered custom network', () => {
+    NetworkConfig.resolve(ANVIL);
+    expect(() => NetworkConfig.resolve({ ...ANVIL, rpcUrl: 'http://127.0.0.1:9545' })).toThrow(/already registered/);
+    expect(NetworkConfig.getRpcUrl(ANVIL.name)).toBe(ANVIL.rpcUrl);
+  });
+
+  it('still allows an explicit override through register', () => {
+    NetworkConfig.resolve(ANVIL);
+    NetworkConfig.register({ ...ANVIL, rpcUrl: 'http://127.0.0.1:9545' }, { override: true });
+    expect(NetworkConfig.getRpcUrl(ANVIL.name)).toBe('http://127.0.0.1:9545');
+  });
+});
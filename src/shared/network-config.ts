@@ -1,4 +1,10 @@
-import type { CronosNetwork, NetworkSettings } from './types.js';
+import { ConfigurationError } from '../errors/index.js';
+import type {
+  CronosNetwork,
+  NetworkName,
+  NetworkSettings,
+  NetworkDefinition,
+} from './types.js';
 
 /**
  * Default network configurations for Cronos networks
@@ -19,51 +25,118 @@ export const NETWORK_CONFIGS: Record<CronosNetwork, NetworkSettings> = {
 };
 
 /**
- * Utility class for network configuration management
+ * Utility class for network configuration management.
+ * Built-in Cronos networks are always available; others can be registered by name.
  */
 export class NetworkConfig {
+  private static networks: Map<string, NetworkSettings> = new Map(
+    Object.entries(NETWORK_CONFIGS)
+  );
+
+  /**
+   * Register a custom network. Pass override to replace an existing definition
+   */
+  static register(definition: NetworkDefinition, options: { override?: boolean } = {}): void {
+    const missingFields = (['name', 'chainId', 'rpcUrl', 'usdcAddress'] as const).filter(
+      (field) => !definition[field]
+    );
+    if (missingFields.length > 0) {
+      throw new ConfigurationError(
+        `Missing required network fields: ${missingFields.join(', ')}`,
+        [...missingFields]
+      );
+    }
+    if (this.networks.has(definition.name) && !options.override) {
+      throw new ConfigurationError(`Network already registered: ${definition.name}`);
+    }
+
+    const { name, ...settings } = definition;
+    this.networks.set(name, { ...settings, blockExplorer: settings.blockExplorer || '' });
+  }
+
+  /**
+   * Resolve a network name or custom definition to its name, registering new definitions.
+   * The registry is shared by every client and server in the process, so a definition
+   * reusing a known name must match it exactly
+   */
+  static resolve(network: NetworkName | NetworkDefinition): NetworkName {
+    if (typeof network === 'string') {
+      return network;
+    }
+    const existing = this.networks.get(network.name);
+    if (!existing) {
+      this.register(network);
+    } else if (!this.sameSettings(existing, network)) {
+      throw new ConfigurationError(
+        `Network ${network.name} is already registered with a different definition. ` +
+          'Use a new name, or NetworkConfig.register(definition, { override: true }) to replace it',
+        ['network']
+      );
+    }
+    return network.name;
+  }
+
+  /**
+   * Find a registered network by chain ID
+   */
+  static findByChainId(chainId: number): NetworkName | undefined {
+    for (const [name, settings] of this.networks) {
+      if (settings.chainId === chainId) {
+        return name;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * List names of all known networks
+   */
+  static listNetworks(): NetworkName[] {
+    return Array.from(this.networks.keys());
+  }
+
   /**
    * Get RPC URL for a network, with optional custom override
    */
-  static getRpcUrl(network: CronosNetwork, customUrl?: string): string {
+  static getRpcUrl(network: NetworkName, customUrl?: string): string {
     if (customUrl) {
       return customUrl;
     }
-    return NETWORK_CONFIGS[network].rpcUrl;
+    return this.settings(network).rpcUrl;
   }
 
   /**
    * Get chain ID for a network
    */
-  static getChainId(network: CronosNetwork): number {
-    return NETWORK_CONFIGS[network].chainId;
+  static getChainId(network: NetworkName): number {
+    return this.settings(network).chainId;
   }
 
   /**
-   * Get USDC address for a network
+   * Get USDC (default payment token) address for a network
    */
-  static getUsdcAddress(network: CronosNetwork): string {
-    return NETWORK_CONFIGS[network].usdcAddress;
+  static getUsdcAddress(network: NetworkName): string {
+    return this.settings(network).usdcAddress;
   }
 
   /**
    * Get block explorer URL for a network
    */
-  static getBlockExplorer(network: CronosNetwork): string {
-    return NETWORK_CONFIGS[network].blockExplorer;
+  static getBlockExplorer(network: NetworkName): string {
+    return this.settings(network).blockExplorer;
   }
 
   /**
    * Get full default configuration for a network
    */
-  static getDefaultConfig(network: CronosNetwork): NetworkSettings {
-    return { ...NETWORK_CONFIGS[network] };
+  static getDefaultConfig(network: NetworkName): NetworkSettings {
+    return { ...this.settings(network) };
   }
 
   /**
    * Get configuration with optional custom RPC URL override
    */
-  static getConfig(network: CronosNetwork, customRpcUrl?: string): NetworkSettings {
+  static getConfig(network: NetworkName, customRpcUrl?: string): NetworkSettings {
     const config = this.getDefaultConfig(network);
     if (customRpcUrl) {
       config.rpcUrl = customRpcUrl;
@@ -74,7 +147,25 @@ export class NetworkConfig {
   /**
    * Check if a network is valid
    */
-  static isValidNetwork(network: string): network is CronosNetwork {
-    return network === 'cronos' || network === 'cronos-testnet';
+  static isValidNetwork(network: string): network is NetworkName {
+    return this.networks.has(network);
+  }
+
+  private static sameSettings(a: NetworkSettings, b: NetworkDefinition): boolean {
+    return a.chainId === b.chainId
+      && a.rpcUrl === b.rpcUrl
+      && a.usdcAddress.toLowerCase() === b.usdcAddress?.toLowerCase()
+      && a.blockExplorer === (b.blockExplorer || '')
+      && (a.fallbackRpcUrls ?? []).join('\n') === (b.fallbackRpcUrls ?? []).join('\n');
+  }
+
+  private static settings(network: NetworkName): NetworkSettings {
+    const settings = this.networks.get(network);
+    if (!settings) {
+      throw new ConfigurationError(
+        `Unknown network: ${network}. Known networks: ${this.listNetworks().join(', ')}`
+      );
+    }
+    return settings;
   }
 }
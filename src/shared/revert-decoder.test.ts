@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { RevertDecoder, SETTLEMENT_ROUTER_ERRORS_ABI, EIP3009_TOKEN_ERRORS_ABI } from './revert-decoder.js';
+
+const HOOK = '0x2222222222222222222222222222222222222222';
+const errors = new ethers.Interface([
+  'error Error(string message)',
+  'error Panic(uint256 code)',
+  'error HookSoldOut(uint256 supply)',
+  ...SETTLEMENT_ROUTER_ERRORS_ABI,
+  ...EIP3009_TOKEN_ERRORS_ABI,
+]);
+const encode = (name: string, args: unknown[] = []) => errors.encodeErrorResult(name, args);
+
+describe('RevertDecoder.decode', () => {
+  it.each<[string, string, string]>([
+    ['require messages', encode('Error', ['insufficient funds']), 'insufficient funds'],
+    ['panics', encode('Panic', [0x11n]), 'Panic(0x11)'],
+    ['router errors', encode('FacilitatorFeeExceedsValue', [2n, 1n]), 'FacilitatorFeeExceedsValue(2, 1)'],
+    ['token errors', encode('AuthorizationExpired', [1_700_000_000n]), 'AuthorizationExpired(1700000000)'],
+    ['errors without arguments', encode('InvalidSignature'), 'InvalidSignature()'],
+  ])('decodes %s', (_, data, reason) => {
+    expect(RevertDecoder.decode(data)).toMatchObject({ reason, data });
+  });
+
+  it('names the arguments of custom errors', () => {
+    expect(RevertDecoder.decode(encode('TransferFailed', [HOOK, 5n, 4n]))).toMatchObject({
+      name: 'TransferFailed',
+      args: { token: HOOK, expected: 5n, actual: 4n },
+    });
+  });
+
+  it('unwraps a hook revert wrapped in HookExecutionFailed', () => {
+    const decoded = RevertDecoder.decode(encode('HookExecutionFailed', [HOOK, encode('Error', ['sold out'])]));
+    expect(decoded).toMatchObject({
+      name: 'HookExecutionFailed',
+      reason: `HookExecutionFailed(${HOOK}): sold out`,
+      inner: { name: 'Error', reason: 'sold out' },
+    });
+  });
+
+  it('reports unknown selectors and ignores empty data', () => {
+    const data = encode('HookSoldOut', [10n]);
+    expect(RevertDecoder.decode(data)).toEqual({
+      name: 'Unknown',
+      reason: `Unknown custom error ${data.slice(0, 10)}`,
+      args: {},
+      data,
+    });
+    expect(RevertDecoder.decode('0x')).toBeUndefined();
+  });
+});
+
+describe('RevertDecoder.decodeError', () => {
+  const data = encode('AuthorizationUsedOrCanceled', [HOOK, ethers.ZeroHash]);
+
+  it.each<[string, unknown]>([
+    ['ethers CALL_EXCEPTION errors', ethers.makeError('execution reverted', 'CALL_EXCEPTION', { data } as never)],
+    ['JSON-RPC error payloads', { message: 'could not coalesce error', error: { code: 3, data } }],
+    ['errors nested in info', { message: 'failed', info: { error: { message: 'reverted', data } } }],
+  ])('finds revert data in %s', (_, error) => {
+    expect(RevertDecoder.decodeError(error)).toMatchObject({ name: 'AuthorizationUsedOrCanceled' });
+  });
+
+  it('falls back to a reason in the message', () => {
+    expect(RevertDecoder.decodeError(new Error('call failed (reason="paused", code=CALL_EXCEPTION)')))
+      .toEqual({ name: 'Error', reason: 'paused', args: { message: 'paused' }, data: '0x' });
+  });
+
+  it('returns undefined for errors without revert details', () => {
+    expect(RevertDecoder.decodeError(new Error('socket hang up'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,151 @@
+import { ethers } from 'ethers';
+import type { DecodedRevert } from './types.js';
+
+/**
+ * Custom errors raised by the SettlementRouter
+ */
+const SETTLEMENT_ROUTER_ERRORS_ABI = [
+  'error AlreadySettled(bytes32 contextKey)',
+  'error InvalidCommitment(bytes32 expected, bytes32 actual)',
+  'error InvalidHook(address hook)',
+  'error HookExecutionFailed(address hook, bytes reason)',
+  'error TransferFailed(address token, uint256 expected, uint256 actual)',
+  'error RouterShouldNotHoldFunds(address token, uint256 amount)',
+  'error FacilitatorFeeExceedsValue(uint256 fee, uint256 value)',
+  'error ReentrancyGuardReentrantCall()',
+];
+
+/**
+ * Custom errors raised by EIP-3009 tokens and their ERC-20/ECDSA base contracts
+ */
+const EIP3009_TOKEN_ERRORS_ABI = [
+  'error AuthorizationUsedOrCanceled(address authorizer, bytes32 nonce)',
+  'error AuthorizationExpired(uint256 validBefore)',
+  'error AuthorizationNotYetValid(uint256 validAfter)',
+  'error CallerMustBePayee(address caller, address payee)',
+  'error InvalidSignature()',
+  'error ECDSAInvalidSignature()',
+  'error ECDSAInvalidSignatureLength(uint256 length)',
+  'error ECDSAInvalidSignatureS(bytes32 s)',
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+  'error ERC20InvalidSender(address sender)',
+  'error ERC20InvalidReceiver(address receiver)',
+];
+
+/**
+ * Built-in Solidity revert types
+ */
+const STANDARD_ERRORS_ABI = [
+  'error Error(string message)',
+  'error Panic(uint256 code)',
+];
+
+/**
+ * Decoder for revert data from settleAndExecute and the contracts it calls
+ */
+export class RevertDecoder {
+  private static iface = new ethers.Interface([
+    ...STANDARD_ERRORS_ABI,
+    ...SETTLEMENT_ROUTER_ERRORS_ABI,
+    ...EIP3009_TOKEN_ERRORS_ABI,
+  ]);
+
+  /**
+   * Decode raw revert data. Returns undefined for empty data
+   */
+  static decode(data: string): DecodedRevert | undefined {
+    if (!ethers.isHexString(data) || data.length < 10) {
+      return undefined;
+    }
+
+    let parsed: ethers.ErrorDescription | null = null;
+    try {
+      parsed = this.iface.parseError(data);
+    } catch {
+      // Selector matched but arguments did not decode
+    }
+
+    if (!parsed) {
+      return {
+        name: 'Unknown',
+        reason: `Unknown custom error ${data.slice(0, 10)}`,
+        args: {},
+        data,
+      };
+    }
+
+    const args: Record<string, unknown> = Object.fromEntries(
+      parsed.fragment.inputs.map((input, i) => [input.name, parsed.args[i]])
+    );
+
+    // ethers parses Error and Panic with its own unnamed fragments, so read them by position
+    if (parsed.name === 'Error') {
+      const message = String(parsed.args[0]);
+      return { name: 'Error', reason: message, args: { message }, data };
+    }
+    if (parsed.name === 'Panic') {
+      const code = parsed.args[0] as bigint;
+      return {
+        name: 'Panic',
+        reason: `Panic(0x${code.toString(16)})`,
+        args: { code },
+        data,
+      };
+    }
+
+    const decoded: DecodedRevert = {
+      name: parsed.name,
+      reason: `${parsed.name}(${parsed.args.map((a) => String(a)).join(', ')})`,
+      args,
+      data,
+    };
+
+    // Hooks revert with their own reason, wrapped by the router
+    if (parsed.name === 'HookExecutionFailed') {
+      decoded.inner = this.decode(args.reason as string);
+      if (decoded.inner) {
+        decoded.reason = `HookExecutionFailed(${args.hook}): ${decoded.inner.reason}`;
+      }
+    }
+
+    return decoded;
+  }
+
+  /**
+   * Decode the revert carried by an ethers error, if any
+   */
+  static decodeError(error: unknown): DecodedRevert | undefined {
+    const data = this.extractRevertData(error);
+    if (data) {
+      return this.decode(data);
+    }
+
+    // Fall back to the provider's message for nodes that only return text
+    if (error instanceof Error) {
+      const revertMatch = error.message.match(/reason="([^"]+)"/);
+      if (revertMatch) {
+        return { name: 'Error', reason: revertMatch[1], args: { message: revertMatch[1] }, data: '0x' };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Find revert data in the nested shapes used by ethers and JSON-RPC providers
+   */
+  private static extractRevertData(error: unknown): string | undefined {
+    const candidates: unknown[] = [];
+    let current = error as Record<string, unknown> | undefined;
+    for (let depth = 0; current && typeof current === 'object' && depth < 5; depth++) {
+      candidates.push(current.data);
+      const info = current.info as Record<string, unknown> | undefined;
+      current = (current.error ?? info?.error) as Record<string, unknown> | undefined;
+    }
+    return candidates.find(
+      (c): c is string => typeof c === 'string' && ethers.isHexString(c) && c.length >= 10
+    );
+  }
+}
+
+export { SETTLEMENT_ROUTER_ERRORS_ABI, EIP3009_TOKEN_ERRORS_ABI };
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ethers } from 'ethers';
+import { ResilientJsonRpcProvider, RpcErrorClassifier } from './rpc-provider.js';
+
+const timeout = () => Object.assign(new Error('request timeout'), { code: 'TIMEOUT' });
+const rateLimited = () => Object.assign(new Error('429 Too Many Requests'), { code: 'SERVER_ERROR' });
+
+function payload(method: string): ethers.JsonRpcPayload {
+  return { id: 1, jsonrpc: '2.0', method, params: [] };
+}
+
+describe('ResilientJsonRpcProvider', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function provider() {
+    return new ResilientJsonRpcProvider('http://localhost:8545', { retries: 2, retryDelayMs: 1 });
+  }
+
+  it('retries reads after a timeout', async () => {
+    const send = vi.spyOn(ethers.JsonRpcProvider.prototype, '_send')
+      .mockRejectedValueOnce(timeout())
+      .mockResolvedValueOnce([{ id: 1, result: '0x1' }]);
+
+    await expect(provider()._send(payload('eth_blockNumber'))).resolves.toEqual([{ id: 1, result: '0x1' }]);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it.each(['eth_sendRawTransaction', 'eth_sendTransaction'])(
+    'does not resend %s after an ambiguous failure',
+    async (method) => {
+      const send = vi.spyOn(ethers.JsonRpcProvider.prototype, '_send').mockRejectedValue(timeout());
+
+      await expect(provider()._send(payload(method))).rejects.toThrow('request timeout');
+      expect(send).toHaveBeenCalledTimes(1);
+    }
+  );
+
+  it('retries a rate-limited broadcast', async () => {
+    const send = vi.spyOn(ethers.JsonRpcProvider.prototype, '_send')
+      .mockRejectedValueOnce(rateLimited())
+      .mockResolvedValueOnce([{ id: 1, result: ethers.ZeroHash }]);
+
+    await expect(provider()._send(payload('eth_sendRawTransaction'))).resolves.toHaveLength(1);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('never retries reverts', async () => {
+    const revert = Object.assign(new Error('execution reverted'), { code: 'CALL_EXCEPTION' });
+    const send = vi.spyOn(ethers.JsonRpcProvider.prototype, '_send').mockRejectedValue(revert);
+
+    await expect(provider()._send(payload('eth_call'))).rejects.toBe(revert);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(RpcErrorClassifier.classify(revert)).toBe('revert');
+  });
+});
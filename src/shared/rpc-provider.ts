@@ -0,0 +1,180 @@
+import { ethers } from 'ethers';
+import type { RpcErrorKind } from './types.js';
+
+/**
+ * RPC failover, retry and rate limiting options
+ */
+export interface RpcOptions {
+  /** Extra RPC URLs tried after the primary one */
+  fallbackUrls?: string[];
+  /** Number of providers that must agree on a result when several URLs are configured (default 1) */
+  quorum?: number;
+  /** Time to wait for a provider before also asking the next one */
+  stallTimeoutMs?: number;
+  /** Per-request timeout */
+  timeoutMs?: number;
+  /** Retries for timeouts, rate limits, connection failures and 5xx responses (default 3) */
+  retries?: number;
+  /** Delay before the first retry; doubles on each subsequent retry */
+  retryDelayMs?: number;
+  /** Upper bound for the retry delay */
+  maxRetryDelayMs?: number;
+  /** Client-side limit on requests per second across all URLs */
+  requestsPerSecond?: number;
+}
+
+/**
+ * JSON-RPC error codes providers use for rate limiting
+ */
+const RATE_LIMIT_CODES = new Set([-32005, -32029, 429]);
+
+/**
+ * Classifies RPC errors so callers can tell transient failures from reverts
+ */
+export class RpcErrorClassifier {
+  /**
+   * Classify an error thrown by an ethers provider
+   */
+  static classify(error: unknown): RpcErrorKind {
+    const e = error as {
+      code?: string | number;
+      name?: string;
+      message?: string;
+      error?: { code?: number; message?: string };
+      info?: { responseStatus?: string };
+    } | null;
+    if (!e) {
+      return 'unknown';
+    }
+    const message = `${e.message ?? ''} ${e.error?.message ?? ''} ${e.info?.responseStatus ?? ''}`.toLowerCase();
+
+    if (e.code === 'CALL_EXCEPTION' || /revert/.test(message)) {
+      return 'revert';
+    }
+    if (e.code === 'TIMEOUT' || e.name === 'TimeoutError' || /timeout|timed out/.test(message)) {
+      return 'timeout';
+    }
+    if (RATE_LIMIT_CODES.has(Number(e.error?.code ?? e.code))
+      || /\b429\b|rate limit|too many requests|limit exceeded/.test(message)) {
+      return 'rate-limit';
+    }
+    if (e.code === 'NETWORK_ERROR'
+      || /econnrefused|econnreset|enotfound|eai_again|socket hang up|fetch failed|network/.test(message)) {
+      return 'network';
+    }
+    if (e.code === 'SERVER_ERROR' || /\b5\d\d\b/.test(message)) {
+      return 'server';
+    }
+    return 'unknown';
+  }
+
+  /**
+   * Check if an error is worth retrying
+   */
+  static isTransient(error: unknown): boolean {
+    const kind = this.classify(error);
+    return kind === 'timeout' || kind === 'rate-limit' || kind === 'network' || kind === 'server';
+  }
+}
+
+/**
+ * Spaces requests evenly to stay under a requests-per-second budget
+ */
+export class RateLimiter {
+  private nextSlot = 0;
+  private interval: number;
+
+  constructor(requestsPerSecond: number) {
+    this.interval = 1000 / requestsPerSecond;
+  }
+
+  /**
+   * Resolve when the next request may be sent
+   */
+  async acquire(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.interval;
+    if (slot > now) {
+      await new Promise((resolve) => setTimeout(resolve, slot - now));
+    }
+  }
+}
+
+/**
+ * Methods that must not be resent after an ambiguous failure: a broadcast that timed out
+ * may already be in the mempool, and resending it fails with "already known" or "nonce too low"
+ */
+const NON_IDEMPOTENT_METHODS = new Set(['eth_sendRawTransaction', 'eth_sendTransaction']);
+
+/**
+ * JSON-RPC provider that retries transient failures with exponential backoff and
+ * honours a shared rate limiter. JSON-RPC errors such as reverts are never retried,
+ * and broadcasts are only retried when the node rate-limited them.
+ */
+export class ResilientJsonRpcProvider extends ethers.JsonRpcProvider {
+  constructor(
+    url: string,
+    private options: RpcOptions = {},
+    private limiter?: RateLimiter
+  ) {
+    const request = new ethers.FetchRequest(url);
+    if (options.timeoutMs !== undefined) {
+      request.timeout = options.timeoutMs;
+    }
+    // Rate limit responses are retried below with our own backoff
+    request.setThrottleParams({ maxAttempts: 1 });
+    super(request);
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<Array<ethers.JsonRpcResult>> {
+    const retries = this.options.retries ?? 3;
+    const baseDelay = this.options.retryDelayMs ?? 250;
+    const maxDelay = this.options.maxRetryDelayMs ?? 5000;
+    const broadcast = (Array.isArray(payload) ? payload : [payload])
+      .some((p) => NON_IDEMPOTENT_METHODS.has(p.method));
+
+    for (let attempt = 0; ; attempt++) {
+      await this.limiter?.acquire();
+      try {
+        const results = await super._send(payload);
+        const limited = (results as Array<ethers.JsonRpcResult | ethers.JsonRpcError>).find(
+          (r) => 'error' in r && RpcErrorClassifier.classify(r) === 'rate-limit'
+        );
+        if (limited && attempt < retries) {
+          throw limited;
+        }
+        return results;
+      } catch (error) {
+        if (attempt >= retries || !RpcErrorClassifier.isTransient(error)
+          || (broadcast && RpcErrorClassifier.classify(error) !== 'rate-limit')) {
+          throw error;
+        }
+        await new Promise((resolve) => setTimeout(resolve, Math.min(baseDelay * 2 ** attempt, maxDelay)));
+      }
+    }
+  }
+}
+
+/**
+ * Build a provider for one or more RPC URLs. Several URLs are combined with an
+ * ethers FallbackProvider, tried in order and agreeing on `quorum` results.
+ */
+export function createRpcProvider(urls: string | string[], options: RpcOptions = {}): ethers.AbstractProvider {
+  const allUrls = Array.from(new Set([...(Array.isArray(urls) ? urls : [urls]), ...(options.fallbackUrls ?? [])]));
+  const limiter = options.requestsPerSecond ? new RateLimiter(options.requestsPerSecond) : undefined;
+  const providers = allUrls.map((url) => new ResilientJsonRpcProvider(url, options, limiter));
+  if (providers.length === 1) {
+    return providers[0];
+  }
+  return new ethers.FallbackProvider(
+    providers.map((provider, i) => ({
+      provider,
+      priority: i + 1,
+      weight: 1,
+      stallTimeout: options.stallTimeoutMs ?? 2000,
+    })),
+    undefined,
+    { quorum: options.quorum ?? 1 }
+  );
+}
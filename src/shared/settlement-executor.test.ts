@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ethers } from 'ethers';
+import { SettlementExecutor } from './settlement-executor.js';
+import { SETTLEMENT_ROUTER_ABI } from './contract-reader.js';
+import type { PreparedTransaction } from './types.js';
+
+const ROUTER = '0x1111111111111111111111111111111111111111';
+const HOOK = '0x2222222222222222222222222222222222222222';
+const TOKEN = '0x3333333333333333333333333333333333333333';
+const PAYER = '0x5555555555555555555555555555555555555555';
+const errors = new ethers.Interface([
+  'error AuthorizationExpired(uint256 validBefore)',
+  'error HookExecutionFailed(address hook, bytes reason)',
+]);
+
+const PREPARED = {
+  routerAddress: ROUTER,
+  nonce: ethers.id('nonce'),
+  salt: ethers.id('salt'),
+  hookData: '0x',
+  params: {
+    token: TOKEN,
+    from: PAYER,
+    value: 1_000_000n,
+    validAfter: 0,
+    validBefore: 1_900_000_000,
+    payTo: PAYER,
+    facilitatorFee: 0n,
+    hook: HOOK,
+  },
+} as PreparedTransaction;
+const SIGNATURE = `0x${'11'.repeat(65)}`;
+
+/**
+ * Executor over a provider whose eth_call and eth_estimateGas are stubbed
+ */
+function executor() {
+  const provider = new ethers.JsonRpcProvider('http://localhost:8545', 338, { staticNetwork: true });
+  const call = vi.spyOn(provider, 'call').mockResolvedValue('0x');
+  const estimateGas = vi.spyOn(provider, 'estimateGas').mockResolvedValue(180_000n);
+  return { executor: new SettlementExecutor(new ethers.VoidSigner(PAYER, provider)), call, estimateGas };
+}
+
+describe('SettlementExecutor.simulate', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns the gas estimate for a call that succeeds', async () => {
+    const { executor: settlement, call } = executor();
+    await expect(settlement.simulate(PREPARED, SIGNATURE)).resolves.toEqual({ success: true, gasEstimate: 180_000n });
+
+    const [tx] = call.mock.calls[0];
+    expect(tx.to).toBe(ROUTER);
+    const decoded = new ethers.Interface(SETTLEMENT_ROUTER_ABI).decodeFunctionData('settleAndExecute', tx.data!);
+    expect(decoded.toArray().slice(0, 3)).toEqual([TOKEN, PAYER, 1_000_000n]);
+  });
+
+  it('decodes a custom error from the router without estimating gas', async () => {
+    const { executor: settlement, call, estimateGas } = executor();
+    const data = errors.encodeErrorResult('AuthorizationExpired', [1_900_000_000n]);
+    call.mockRejectedValue(ethers.makeError('execution reverted', 'CALL_EXCEPTION', { data } as never));
+
+    await expect(settlement.simulate(PREPARED, SIGNATURE)).resolves.toEqual({
+      success: false,
+      revert: { name: 'AuthorizationExpired', reason: 'AuthorizationExpired(1900000000)', args: { validBefore: 1_900_000_000n }, data },
+      error: 'AuthorizationExpired(1900000000)',
+    });
+    expect(estimateGas).not.toHaveBeenCalled();
+  });
+
+  it('reports the hook reason for a failing hook', async () => {
+    const { executor: settlement, call } = executor();
+    const inner = new ethers.Interface(['error Error(string)']).encodeErrorResult('Error', ['sold out']);
+    const data = errors.encodeErrorResult('HookExecutionFailed', [HOOK, inner]);
+    call.mockRejectedValue(ethers.makeError('execution reverted', 'CALL_EXCEPTION', { data } as never));
+
+    const result = await settlement.simulate(PREPARED, SIGNATURE);
+    expect(result.error).toBe(`HookExecutionFailed(${HOOK}): sold out`);
+  });
+
+  it('reports errors without revert data by message', async () => {
+    const { executor: settlement, call } = executor();
+    call.mockRejectedValue(new Error('socket hang up'));
+    await expect(settlement.simulate(PREPARED, SIGNATURE)).resolves.toEqual({ success: false, error: 'socket hang up' });
+  });
+});
@@ -0,0 +1,147 @@
+import { ethers } from 'ethers';
+import { TransactionError } from '../errors/index.js';
+import { SETTLEMENT_ROUTER_ABI, TOKEN_ABI } from './contract-reader.js';
+import { RevertDecoder } from './revert-decoder.js';
+import { EventDecoder } from './event-decoder.js';
+import type {
+  PreparedCancellation,
+  PreparedTransaction,
+  TransactionResult,
+  SimulationResult,
+} from './types.js';
+
+/**
+ * Submits signed authorizations on-chain: settlements through the SettlementRouter's
+ * settleAndExecute and cancellations through the token's cancelAuthorization
+ */
+export class SettlementExecutor {
+  constructor(private signer: ethers.Signer) {}
+
+  /**
+   * Relay a signed prepared transaction and wait for its receipt
+   */
+  async settle(
+    prepared: PreparedTransaction,
+    signature: string
+  ): Promise<TransactionResult> {
+    try {
+      const router = new ethers.Contract(
+        prepared.routerAddress,
+        SETTLEMENT_ROUTER_ABI,
+        this.signer
+      );
+
+      const tx = await router.settleAndExecute(...this.settleArgs(prepared, signature));
+
+      const receipt = await tx.wait();
+
+      // Decode router, token and hook events
+      const events = EventDecoder.decodeLogs(receipt.logs);
+
+      return {
+        success: true,
+        txHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        events,
+        ...EventDecoder.summarize(events, { router: prepared.routerAddress, hook: prepared.params.hook }),
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        const revert = RevertDecoder.decodeError(error);
+        throw new TransactionError(
+          `Transaction failed: ${revert?.reason ?? error.message}`,
+          undefined,
+          revert?.reason,
+          revert
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a signed-but-unsettled authorization on the token contract
+   */
+  async cancel(
+    cancellation: PreparedCancellation,
+    signature: string
+  ): Promise<TransactionResult> {
+    try {
+      const token = new ethers.Contract(cancellation.token, TOKEN_ABI, this.signer);
+      const { v, r, s } = ethers.Signature.from(signature);
+      const tx = await token.cancelAuthorization(
+        cancellation.authorizer,
+        cancellation.nonce,
+        v,
+        r,
+        s
+      );
+      const receipt = await tx.wait();
+      return {
+        success: true,
+        txHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        events: EventDecoder.decodeLogs(receipt.logs),
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        const revert = RevertDecoder.decodeError(error);
+        throw new TransactionError(
+          `Cancellation failed: ${revert?.reason ?? error.message}`,
+          undefined,
+          revert?.reason,
+          revert
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Dry-run settleAndExecute with eth_call and estimate its gas
+   */
+  async simulate(
+    prepared: PreparedTransaction,
+    signature: string
+  ): Promise<SimulationResult> {
+    const router = new ethers.Contract(
+      prepared.routerAddress,
+      SETTLEMENT_ROUTER_ABI,
+      this.signer
+    );
+    const args = this.settleArgs(prepared, signature);
+
+    try {
+      await router.settleAndExecute.staticCall(...args);
+      const gasEstimate = await router.settleAndExecute.estimateGas(...args);
+      return { success: true, gasEstimate };
+    } catch (error) {
+      const revert = RevertDecoder.decodeError(error);
+      return {
+        success: false,
+        revert,
+        error: revert?.reason ?? (error instanceof Error ? error.message : 'Unknown error'),
+      };
+    }
+  }
+
+  /**
+   * Positional arguments for settleAndExecute
+   */
+  private settleArgs(prepared: PreparedTransaction, signature: string) {
+    return [
+      prepared.params.token,
+      prepared.params.from,
+      prepared.params.value,
+      prepared.params.validAfter,
+      prepared.params.validBefore,
+      prepared.nonce,
+      signature,
+      prepared.salt,
+      prepared.params.payTo,
+      prepared.params.facilitatorFee,
+      prepared.params.hook,
+      prepared.hookData,
+    ];
+  }
+}
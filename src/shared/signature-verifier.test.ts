@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { SignatureVerifier, splitTypedData } from './signature-verifier.js';
+import { SignatureError } from '../errors/index.js';
+import type { ContractReader } from './contract-reader.js';
+import type { PreparedTransaction, SignatureFailureReason } from './types.js';
+
+const ROUTER = '0x1111111111111111111111111111111111111111';
+const HOOK = '0x2222222222222222222222222222222222222222';
+const TOKEN = '0x3333333333333333333333333333333333333333';
+const PAY_TO = '0x4444444444444444444444444444444444444444';
+const CONTRACT_WALLET = '0x5555555555555555555555555555555555555555';
+
+const payer = new ethers.Wallet(ethers.id('payer'));
+const stranger = new ethers.Wallet(ethers.id('stranger'));
+const NOW = 1_800_000_000;
+
+function prepared(from: string = payer.address): PreparedTransaction {
+  const nonce = ethers.id('nonce');
+  return {
+    typedData: {
+      types: {
+        EIP712Domain: [
+          { name: 'name', type: 'string' },
+          { name: 'version', type: 'string' },
+          { name: 'chainId', type: 'uint256' },
+          { name: 'verifyingContract', type: 'address' },
+        ],
+        TransferWithAuthorization: [
+          { name: 'from', type: 'address' },
+          { name: 'to', type: 'address' },
+          { name: 'value', type: 'uint256' },
+          { name: 'validAfter', type: 'uint256' },
+          { name: 'validBefore', type: 'uint256' },
+          { name: 'nonce', type: 'bytes32' },
+        ],
+      },
+      primaryType: 'TransferWithAuthorization',
+      domain: { name: 'USD Coin', version: '2', chainId: 338, verifyingContract: TOKEN },
+      message: {
+        from,
+        to: ROUTER,
+        value: '1000000',
+        validAfter: String(NOW - 60),
+        validBefore: String(NOW + 600),
+        nonce,
+      },
+    },
+    routerAddress: ROUTER,
+    nonce,
+    salt: ethers.id('salt'),
+    hookData: '0x',
+    params: {
+      token: TOKEN,
+      from,
+      value: 1_000_000n,
+      validAfter: NOW - 60,
+      validBefore: NOW + 600,
+      payTo: PAY_TO,
+      facilitatorFee: 0n,
+      hook: HOOK,
+    },
+  };
+}
+
+async function sign(payment: PreparedTransaction, wallet: ethers.Wallet = payer): Promise<string> {
+  const { domain, types, message } = splitTypedData(payment.typedData);
+  return wallet.signTypedData(domain, types, message);
+}
+
+/**
+ * ContractReader stand-in for EIP-1271 wallets
+ */
+function contractWallet(accepts: boolean): ContractReader {
+  return {
+    contractExists: async (address: string) => address === CONTRACT_WALLET,
+    isValidSignature: async () => accepts,
+  } as unknown as ContractReader;
+}
+
+describe('SignatureVerifier', () => {
+  it('accepts a signature from the payer', async () => {
+    const payment = prepared();
+    const result = await new SignatureVerifier().verify(payment, await sign(payment), NOW);
+    expect(result).toEqual({ valid: true, signer: payer.address, failures: [] });
+  });
+
+  it('accepts a contract wallet signature approved via EIP-1271', async () => {
+    const payment = prepared(CONTRACT_WALLET);
+    const result = await new SignatureVerifier(contractWallet(true)).verify(payment, '0x1234', NOW);
+    expect(result).toEqual({ valid: true, signer: CONTRACT_WALLET, failures: [] });
+  });
+
+  it.each<[string, () => Promise<[SignatureVerifier, PreparedTransaction, string, number]>, SignatureFailureReason[]]>([
+    ['a non-hex signature', async () => [new SignatureVerifier(), prepared(), 'not-a-signature', NOW],
+      ['malformed-signature']],
+    ['an empty signature', async () => [new SignatureVerifier(), prepared(), '0x', NOW], ['malformed-signature']],
+    ['a short signature from an EOA', async () => [new SignatureVerifier(), prepared(), '0x1234', NOW],
+      ['malformed-signature']],
+    ['call parameters that differ from the signed message', async () => {
+      const payment = prepared();
+      const signature = await sign(payment);
+      payment.params.value = 2_000_000n;
+      return [new SignatureVerifier(), payment, signature, NOW];
+    }, ['typed-data-mismatch']],
+    ['a signature from another key', async () => {
+      const payment = prepared();
+      return [new SignatureVerifier(), payment, await sign(payment, stranger), NOW];
+    }, ['signer-mismatch']],
+    ['a contract wallet that rejects the signature', async () => [
+      new SignatureVerifier(contractWallet(false)), prepared(CONTRACT_WALLET), '0x1234', NOW,
+    ], ['contract-signature-invalid']],
+    ['an expired authorization', async () => {
+      const payment = prepared();
+      return [new SignatureVerifier(), payment, await sign(payment), NOW + 600];
+    }, ['expired']],
+    ['an authorization that is not valid yet', async () => {
+      const payment = prepared();
+      return [new SignatureVerifier(), payment, await sign(payment), NOW - 61];
+    }, ['not-yet-valid']],
+  ])('rejects %s', async (_, setup, reasons) => {
+    const [verifier, payment, signature, now] = await setup();
+    const result = await verifier.verify(payment, signature, now);
+    expect(result.valid).toBe(false);
+    expect(result.failures.map((f) => f.reason)).toEqual(reasons);
+  });
+
+  it('throws a SignatureError carrying the failures', async () => {
+    const payment = prepared();
+    const signature = await sign(payment, stranger);
+    await expect(new SignatureVerifier().assertValid(payment, signature, NOW)).rejects.toMatchObject({
+      name: SignatureError.name,
+      details: [expect.objectContaining({ reason: 'signer-mismatch' })],
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { ethers } from 'ethers';
+import { SignatureError } from '../errors/index.js';
+import type { ContractReader } from './contract-reader.js';
+import type {
+  EIP712TypedData,
+  X402TypedData,
+  PreparedTransaction,
+  SignatureFailure,
+  SignatureVerificationResult,
+} from './types.js';
+
+/**
+ * Split typed data into the (domain, types, message) triple ethers expects
+ */
+export function splitTypedData(typedData: X402TypedData) {
+  const types = Object.fromEntries(
+    Object.entries(typedData.types).filter(([name]) => name !== 'EIP712Domain')
+  );
+  return { domain: typedData.domain, types, message: typedData.message };
+}
+
+/**
+ * Off-chain verifier for EIP-3009 payment authorizations.
+ * ECDSA signatures are recovered locally; when a ContractReader is supplied and the
+ * payer is a contract, the signature is checked with EIP-1271 isValidSignature.
+ */
+export class SignatureVerifier {
+  constructor(private contractReader?: ContractReader) {}
+
+  /**
+   * Verify that a signature authorizes a prepared transaction
+   */
+  async verify(
+    prepared: PreparedTransaction,
+    signature: string,
+    now: number = Math.floor(Date.now() / 1000)
+  ): Promise<SignatureVerificationResult> {
+    const failures: SignatureFailure[] = [
+      ...this.checkTypedData(prepared),
+      ...this.checkValidity(prepared, now),
+    ];
+
+    if (!ethers.isHexString(signature, true) || signature.length <= 2) {
+      failures.push({
+        reason: 'malformed-signature',
+        message: 'Signature must be a non-empty hex string starting with 0x',
+      });
+      return { valid: false, failures };
+    }
+
+    const { from } = prepared.params;
+    const signer = ethers.isHexString(signature, 65)
+      ? this.recover(prepared.typedData, signature)
+      : undefined;
+    if (signer && this.sameAddress(signer, from)) {
+      return { valid: failures.length === 0, signer, failures };
+    }
+
+    // Smart-contract wallets (Safe, ERC-4337 accounts) validate via EIP-1271
+    if (this.contractReader && await this.contractReader.contractExists(from)) {
+      const { domain, types, message } = splitTypedData(prepared.typedData);
+      const hash = ethers.TypedDataEncoder.hash(domain, types, message);
+      if (await this.contractReader.isValidSignature(from, hash, signature)) {
+        return { valid: failures.length === 0, signer: ethers.getAddress(from), failures };
+      }
+      failures.push({
+        reason: 'contract-signature-invalid',
+        message: `Contract wallet ${from} rejected the signature (EIP-1271)`,
+      });
+      return { valid: false, signer, failures };
+    }
+
+    if (!signer) {
+      failures.push({
+        reason: 'malformed-signature',
+        message: 'Signature must be a valid 65-byte ECDSA signature for externally owned accounts',
+      });
+      return { valid: false, failures };
+    }
+
+    failures.push({
+      reason: 'signer-mismatch',
+      message: `Signature was made by ${signer}, expected ${from}`,
+    });
+    return { valid: false, signer, failures };
+  }
+
+  /**
+   * Throw a SignatureError with structured details unless the signature is valid
+   */
+  async assertValid(
+    prepared: PreparedTransaction,
+    signature: string,
+    now?: number
+  ): Promise<void> {
+    const result = await this.verify(prepared, signature, now);
+    if (!result.valid) {
+      throw new SignatureError(
+        `Invalid signature: ${result.failures.map((f) => f.message).join('; ')}`,
+        result.failures
+      );
+    }
+  }
+
+  /**
+   * Recover the ECDSA signer of the typed data, if the signature is well-formed
+   */
+  private recover(typedData: EIP712TypedData, signature: string): string | undefined {
+    try {
+      const { domain, types, message } = splitTypedData(typedData);
+      return ethers.verifyTypedData(domain, types, message, signature);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * The signed message must describe the same transfer as the settlement call
+   */
+  private checkTypedData(prepared: PreparedTransaction): SignatureFailure[] {
+    const { message, domain } = prepared.typedData;
+    const { params } = prepared;
+    const mismatches: string[] = [];
+
+    if (!this.sameAddress(message.from, params.from)) mismatches.push('from');
+    if (!this.sameAddress(message.to, prepared.routerAddress)) mismatches.push('to');
+    if (!this.sameAddress(domain.verifyingContract, params.token)) mismatches.push('verifyingContract');
+    if (message.value !== params.value.toString()) mismatches.push('value');
+    if (message.validAfter !== params.validAfter.toString()) mismatches.push('validAfter');
+    if (message.validBefore !== params.validBefore.toString()) mismatches.push('validBefore');
+    if (message.nonce !== prepared.nonce) mismatches.push('nonce');
+
+    return mismatches.map((field) => ({
+      reason: 'typed-data-mismatch' as const,
+      message: `Typed data ${field} does not match the prepared transaction`,
+    }));
+  }
+
+  /**
+   * The authorization must be usable now
+   */
+  private checkValidity(prepared: PreparedTransaction, now: number): SignatureFailure[] {
+    const { validAfter, validBefore } = prepared.params;
+    if (validBefore <= now) {
+      return [{ reason: 'expired', message: `Authorization expired at ${validBefore}` }];
+    }
+    if (validAfter > now) {
+      return [{ reason: 'not-yet-valid', message: `Authorization is not valid until ${validAfter}` }];
+    }
+    return [];
+  }
+
+  private sameAddress(a: string, b: string): boolean {
+    return typeof a === 'string' && typeof b === 'string' && a.toLowerCase() === b.toLowerCase();
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TransactionSerializer } from './transaction-serializer.js';
+
+const VALUE = { success: true, txHash: '0xabc', blockNumber: 12, amount: 1_000_000n, note: 'café ☕ 支付' };
+
+describe('TransactionSerializer headers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('round trips JSON with bigints and non-ASCII text', () => {
+    const header = TransactionSerializer.encodeHeader(VALUE);
+    expect(TransactionSerializer.decodeHeader(header)).toEqual({ ...VALUE, amount: '1000000' });
+  });
+
+  it('does not need Node Buffer', () => {
+    vi.stubGlobal('Buffer', undefined);
+    const header = TransactionSerializer.encodeHeader(VALUE);
+    expect(TransactionSerializer.decodeHeader(header)).toMatchObject({ note: VALUE.note });
+  });
+
+  it('produces standard base64 of the UTF-8 JSON', () => {
+    const header = TransactionSerializer.encodeHeader(VALUE);
+    const json = JSON.stringify({ ...VALUE, amount: '1000000' });
+    expect(header).toBe(Buffer.from(json, 'utf8').toString('base64'));
+  });
+
+  it.each(['not base64!', btoa('{"unterminated"'), btoa('\xff\xfe')])('rejects %j', (header) => {
+    expect(() => TransactionSerializer.decodeHeader(header)).toThrow('Header is not valid base64-encoded JSON');
+  });
+
+  it('requires a prepared transaction and signature in payment headers', () => {
+    expect(() => TransactionSerializer.decodePaymentHeader(TransactionSerializer.encodeHeader({ signature: '0x' })))
+      .toThrow('Payment header must contain a prepared transaction');
+    expect(() => TransactionSerializer.decodePaymentHeader(TransactionSerializer.encodeHeader({ prepared: {} })))
+      .toThrow('Payment header must contain a signature');
+  });
+});
@@ -0,0 +1,194 @@
+import { ethers } from 'ethers';
+import type {
+  PreparedTransaction,
+  SerializedPreparedTransaction,
+  SettlementRequest,
+  TransactionResult,
+} from './types.js';
+
+/**
+ * x402 protocol version advertised in 402 responses
+ */
+export const X402_VERSION = 1;
+
+/**
+ * Request header carrying a signed payment
+ */
+export const X402_PAYMENT_HEADER = 'X-PAYMENT';
+
+/**
+ * Response header carrying the settlement summary
+ */
+export const X402_PAYMENT_RESPONSE_HEADER = 'X-PAYMENT-RESPONSE';
+
+/**
+ * Serializer for moving prepared transactions and results across JSON boundaries
+ */
+export class TransactionSerializer {
+  /**
+   * Convert a prepared transaction to a JSON-safe object
+   */
+  static serialize(prepared: PreparedTransaction): SerializedPreparedTransaction {
+    return {
+      ...prepared,
+      params: {
+        ...prepared.params,
+        value: prepared.params.value.toString(),
+        facilitatorFee: prepared.params.facilitatorFee.toString(),
+      },
+    };
+  }
+
+  /**
+   * Restore a prepared transaction from its JSON form
+   */
+  static deserialize(input: unknown): PreparedTransaction {
+    const data = input as SerializedPreparedTransaction;
+    if (!data || typeof data !== 'object' || !data.params || !data.typedData) {
+      throw new Error('Prepared transaction must include typedData and params');
+    }
+
+    const { params } = data;
+    for (const field of ['domain', 'message'] as const) {
+      const value = (data.typedData as unknown as Record<string, unknown>)[field];
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error(`typedData.${field} must be an object`);
+      }
+    }
+
+    const addresses: Array<[string, unknown]> = [
+      ['routerAddress', data.routerAddress],
+      ['params.token', params.token],
+      ['params.from', params.from],
+      ['params.payTo', params.payTo],
+      ['params.hook', params.hook],
+    ];
+    for (const [field, value] of addresses) {
+      if (typeof value !== 'string' || !ethers.isAddress(value)) {
+        throw new Error(`Invalid address for ${field}`);
+      }
+    }
+
+    const hexFields: Array<[string, unknown, number | undefined]> = [
+      ['nonce', data.nonce, 32],
+      ['salt', data.salt, 32],
+      ['hookData', data.hookData, undefined],
+    ];
+    for (const [field, value, length] of hexFields) {
+      if (typeof value !== 'string' || !ethers.isHexString(value, length)) {
+        throw new Error(`Invalid hex value for ${field}`);
+      }
+    }
+
+    return {
+      typedData: data.typedData,
+      routerAddress: data.routerAddress,
+      nonce: data.nonce,
+      salt: data.salt,
+      hookData: data.hookData,
+      params: {
+        token: params.token,
+        from: params.from,
+        value: this.toBigInt('params.value', params.value),
+        validAfter: this.toTimestamp('params.validAfter', params.validAfter),
+        validBefore: this.toTimestamp('params.validBefore', params.validBefore),
+        payTo: params.payTo,
+        facilitatorFee: this.toBigInt('params.facilitatorFee', params.facilitatorFee),
+        hook: params.hook,
+      },
+    };
+  }
+
+  /**
+   * Convert a transaction result to a JSON-safe object (bigint event args become strings)
+   */
+  static serializeResult(result: TransactionResult): TransactionResult {
+    return this.toJsonSafe(result) as TransactionResult;
+  }
+
+  /**
+   * Encode a signed payment as a base64 JSON header value
+   */
+  static encodePaymentHeader(prepared: PreparedTransaction, signature: string): string {
+    const payload: SettlementRequest = {
+      prepared: this.serialize(prepared),
+      signature,
+    };
+    return this.encodeHeader(payload);
+  }
+
+  /**
+   * Decode a payment header into a settlement request
+   */
+  static decodePaymentHeader(header: string): SettlementRequest {
+    const payload = this.decodeHeader(header) as SettlementRequest;
+    if (!payload || typeof payload !== 'object' || !payload.prepared) {
+      throw new Error('Payment header must contain a prepared transaction');
+    }
+    if (typeof payload.signature !== 'string') {
+      throw new Error('Payment header must contain a signature');
+    }
+    return payload;
+  }
+
+  /**
+   * Encode any JSON value as a base64 header value. Uses web APIs so it also runs in browsers
+   */
+  static encodeHeader(value: unknown): string {
+    const bytes = new TextEncoder().encode(JSON.stringify(this.toJsonSafe(value)));
+    let binary = '';
+    for (const byte of bytes) {
+      binary += String.fromCharCode(byte);
+    }
+    return btoa(binary);
+  }
+
+  /**
+   * Decode a base64 JSON header value
+   */
+  static decodeHeader(header: string): unknown {
+    try {
+      const bytes = Uint8Array.from(atob(header), (char) => char.charCodeAt(0));
+      return JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(bytes));
+    } catch {
+      throw new Error('Header is not valid base64-encoded JSON');
+    }
+  }
+
+  /**
+   * Recursively replace bigint values with decimal strings
+   */
+  static toJsonSafe(value: unknown): unknown {
+    if (typeof value === 'bigint') {
+      return value.toString();
+    }
+    if (Array.isArray(value)) {
+      return value.map((v) => this.toJsonSafe(v));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [k, this.toJsonSafe(v)])
+      );
+    }
+    return value;
+  }
+
+  private static toTimestamp(field: string, value: unknown): number {
+    const timestamp = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value;
+    if (typeof timestamp !== 'number' || !Number.isSafeInteger(timestamp) || timestamp < 0) {
+      throw new Error(`Invalid timestamp for ${field}`);
+    }
+    return timestamp;
+  }
+
+  private static toBigInt(field: string, value: unknown): bigint {
+    if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'bigint') {
+      throw new Error(`Invalid amount for ${field}`);
+    }
+    try {
+      return BigInt(value);
+    } catch {
+      throw new Error(`Invalid amount for ${field}`);
+    }
+  }
+}
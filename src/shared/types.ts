@@ -3,20 +3,45 @@
  */
 export type CronosNetwork = 'cronos' | 'cronos-testnet';
 
+/**
+ * Network name: a built-in Cronos network or one registered with NetworkConfig.register
+ */
+export type NetworkName = CronosNetwork | (string & {});
+
 /**
  * Network-specific configuration settings
  */
 export interface NetworkSettings {
   chainId: number;
   rpcUrl: string;
+  /** Default EIP-3009 payment token */
   usdcAddress: string;
   blockExplorer: string;
+  /** RPC URLs tried when rpcUrl fails */
+  fallbackRpcUrls?: string[];
+}
+
+/**
+ * Kind of failure behind an RPC error
+ */
+export type RpcErrorKind = 'timeout' | 'rate-limit' | 'revert' | 'network' | 'server' | 'unknown';
+
+/**
+ * Custom network definition (local devnet, Cronos zkEVM, other EVM chains)
+ */
+export interface NetworkDefinition extends NetworkSettings {
+  name: string;
 }
 
 /**
- * Hook types supported by the x402 protocol
+ * Hook types built into the x402 protocol
  */
-export type HookType = 'nft-mint' | 'reward-points' | 'transfer-split';
+export type BuiltInHookType = 'nft-mint' | 'reward-points' | 'transfer-split';
+
+/**
+ * Hook type identifier: a built-in type or one registered with HookRegistry
+ */
+export type HookType = BuiltInHookType | (string & {});
 
 /**
  * Service configuration for registering x402 services
@@ -27,16 +52,21 @@ export interface X402ServiceConfig {
   description?: string;
   hookType: HookType;
   hookAddress: string;
-  network: CronosNetwork;
+  network: NetworkName;
+  /** EIP-3009 token paid to this service; defaults to the network's default token */
+  tokenAddress?: string;
   supportingContracts?: {
     nftContract?: string;
     rewardToken?: string;
+    [name: string]: string | undefined;
   };
   defaults?: {
     paymentAmount: string;
     facilitatorFee: string;
     payTo: string;
   };
+  /** Disabled services stay registered but are hidden from discovery and refuse payments */
+  enabled?: boolean;
 }
 
 /**
@@ -44,7 +74,10 @@ export interface X402ServiceConfig {
  */
 export interface X402Service extends X402ServiceConfig {
   settlementRouter: string;
+  /** Payment token address (same as token.address; kept for compatibility) */
   usdcAddress: string;
+  /** Payment token with on-chain EIP-712 domain info and decimals */
+  token?: ServiceToken;
   chainId: number;
 }
 
@@ -75,10 +108,47 @@ export interface TransferSplitHookData {
   }>;
 }
 
+/**
+ * Hook data parameters for a custom hook registered with HookRegistry
+ */
+export interface CustomHookData {
+  type: string;
+  [key: string]: unknown;
+}
+
 /**
  * Union type for all hook data parameters
  */
-export type HookDataParams = NFTMintHookData | RewardPointsHookData | TransferSplitHookData;
+export type HookDataParams =
+  | NFTMintHookData
+  | RewardPointsHookData
+  | TransferSplitHookData
+  | CustomHookData;
+
+/**
+ * Definition of a hook type: how its hookData is encoded, decoded, described and validated
+ */
+export interface HookDefinition<P extends HookDataParams = HookDataParams> {
+  type: HookType;
+  /** Solidity ABI type of the hookData, e.g. "tuple(address)" */
+  abiType: string;
+  description: string;
+  example: string;
+  encode(params: P): string;
+  decode(hookData: string): P;
+  validate(params: P): boolean;
+  /** Event ABI fragments emitted by the hook contract */
+  events?: string[];
+  /** Derive hook data from a service's supporting contracts, when possible */
+  defaultParams?(service: X402Service): P | undefined;
+  /** JSON Schema of the hook data parameters (without `type`), published in OpenAPI documents */
+  paramsSchema?: JsonSchema;
+}
+
+/**
+ * JSON Schema (draft 2020-12) object, as used by OpenAPI 3.1
+ */
+export type JsonSchema = { [keyword: string]: unknown };
 
 /**
  * Schema describing how to encode hookData for a hook type
@@ -88,6 +158,8 @@ export interface HookDataSchema {
   abiType: string;
   description: string;
   example: string;
+  /** JSON Schema of the hook data parameters, when the hook declares one */
+  paramsSchema?: JsonSchema;
 }
 
 /**
@@ -128,6 +200,53 @@ export interface EIP712TypedData {
   };
 }
 
+/**
+ * EIP-712 typed data for an EIP-3009 cancelAuthorization
+ */
+export interface CancelAuthorizationTypedData {
+  types: {
+    EIP712Domain: Array<{ name: string; type: string }>;
+    CancelAuthorization: Array<{ name: string; type: string }>;
+  };
+  primaryType: 'CancelAuthorization';
+  domain: EIP712TypedData['domain'];
+  message: {
+    authorizer: string;
+    nonce: string;
+  };
+}
+
+/**
+ * Any typed data an X402 signer may be asked to sign
+ */
+export type X402TypedData = EIP712TypedData | CancelAuthorizationTypedData;
+
+/**
+ * Cancellation of a signed-but-unsettled authorization, ready for signing
+ */
+export interface PreparedCancellation {
+  typedData: CancelAuthorizationTypedData;
+  token: string;
+  authorizer: string;
+  nonce: string;
+}
+
+/**
+ * Lifecycle state of an EIP-3009 authorization
+ */
+export type AuthorizationState = 'pending' | 'expired' | 'used' | 'cancelled';
+
+/**
+ * On-chain status of a prepared authorization
+ */
+export interface AuthorizationStatus {
+  state: AuthorizationState;
+  token: string;
+  authorizer: string;
+  nonce: string;
+  validBefore: number;
+}
+
 /**
  * Prepared transaction ready for signing
  */
@@ -155,12 +274,49 @@ export interface PreparedTransaction {
 export interface TransactionEvent {
   name: string;
   args: Record<string, unknown>;
+  /** Contract that emitted the event */
+  address?: string;
+}
+
+/**
+ * Decoded SettlementRouter Settled event
+ */
+export interface SettlementEventData {
+  contextKey: string;
+  payer: string;
+  token: string;
+  amount: bigint;
+  hook: string;
+  salt: string;
+  payTo: string;
+  facilitatorFee: bigint;
+}
+
+/**
+ * Payout made by the transfer-split hook
+ */
+export interface SplitPayout {
+  recipient: string;
+  amount: bigint;
+}
+
+/**
+ * Typed outcome extracted from settlement and hook events
+ */
+export interface SettlementOutcome {
+  settlement?: SettlementEventData;
+  /** Token ID minted by the nft-mint hook */
+  mintedTokenId?: bigint;
+  /** Points awarded by the reward-points hook */
+  rewardPoints?: bigint;
+  /** Payouts made by the transfer-split hook */
+  splits?: SplitPayout[];
 }
 
 /**
  * Result of a submitted transaction
  */
-export interface TransactionResult {
+export interface TransactionResult extends SettlementOutcome {
   success: boolean;
   txHash: string;
   blockNumber: number;
@@ -169,29 +325,270 @@ export interface TransactionResult {
 }
 
 /**
- * Token info for EIP-712 domain
+ * Token info for EIP-712 domain and amount parsing
  */
 export interface TokenInfo {
   name: string;
   version: string;
+  decimals: number;
+}
+
+/**
+ * Payment token carried on a service
+ */
+export interface ServiceToken extends TokenInfo {
+  address: string;
+}
+
+/**
+ * Organization publishing an agent
+ */
+export interface AgentProvider {
+  organization: string;
+  url: string;
+}
+
+/**
+ * A2A protocol extension declared by an agent
+ */
+export interface AgentExtension {
+  uri: string;
+  description?: string;
+  required?: boolean;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * Optional A2A capabilities supported by an agent
+ */
+export interface AgentCapabilities {
+  streaming?: boolean;
+  pushNotifications?: boolean;
+  stateTransitionHistory?: boolean;
+  extensions?: AgentExtension[];
+}
+
+/**
+ * A2A skill: one unit of work an agent can perform
+ */
+export interface AgentSkill {
+  id: string;
+  name: string;
+  description: string;
+  tags: string[];
+  examples?: string[];
+  inputModes?: string[];
+  outputModes?: string[];
+}
+
+/**
+ * Parameters of the x402 extension attached to an agent card
+ */
+export interface X402ExtensionParams {
+  network: NetworkName;
+  chainId: number;
+  services: X402Service[];
 }
 
 /**
- * Agent card for service discovery
+ * How an agent card signature was produced
+ */
+export type AgentCardSignatureScheme = 'eip191' | 'eip712';
+
+/**
+ * Operator signature over the canonicalised agent card (all fields except the signature)
+ */
+export interface AgentCardSignature {
+  scheme: AgentCardSignatureScheme;
+  signer: string;
+  signature: string;
+  /** EIP-712 domain chain ID; present for eip712 signatures */
+  chainId?: number;
+}
+
+/**
+ * A2A agent card for service discovery, with x402 payment details attached as an extension
  */
 export interface AgentCard {
+  protocolVersion: string;
+  name: string;
+  description: string;
+  url: string;
+  version: string;
+  provider?: AgentProvider;
+  documentationUrl?: string;
+  capabilities: AgentCapabilities;
+  defaultInputModes: string[];
+  defaultOutputModes: string[];
+  skills: AgentSkill[];
+  /** Same as the x402 extension's services; kept for clients reading the legacy card */
+  services?: X402Service[];
+  /** Set when the server signs its card with an operator key */
+  x402Signature?: AgentCardSignature;
+}
+
+/**
+ * Minimal agent card published by earlier versions of this library
+ */
+export interface LegacyAgentCard {
   name: string;
   description?: string;
   url: string;
   services: X402Service[];
 }
 
+/**
+ * An advertised service that failed validation during discovery
+ */
+export interface ServiceValidationIssue {
+  /** Position of the service in the agent card */
+  index: number;
+  serviceId?: string;
+  issues: string[];
+}
+
 /**
  * Discovered services from a server
  */
 export interface DiscoveredServices {
   serverUrl: string;
-  agentCard: AgentCard;
+  agentCard: AgentCard | LegacyAgentCard;
+  /** Services that passed validation */
   services: X402Service[];
+  /** Services that were advertised but rejected */
+  invalidServices: ServiceValidationIssue[];
+  /** Set when the agent card could not be fetched or is malformed */
   error?: string;
+  /** True when the result was served from the discovery cache */
+  cached?: boolean;
+  /** Address that signed the agent card, when its signature verified */
+  signer?: string;
+}
+
+/**
+ * JSON-safe prepared transaction with bigint amounts as decimal strings
+ */
+export interface SerializedPreparedTransaction extends Omit<PreparedTransaction, 'params'> {
+  params: Omit<PreparedTransaction['params'], 'value' | 'facilitatorFee'> & {
+    value: string;
+    facilitatorFee: string;
+  };
+}
+
+/**
+ * Request body for relaying a signed authorization through a facilitator
+ */
+export interface SettlementRequest {
+  prepared: SerializedPreparedTransaction;
+  signature: string;
+}
+
+/**
+ * Machine-readable payment requirements for a resource protected by an x402 service
+ */
+export interface PaymentRequirements {
+  scheme: 'x402-settlement-router';
+  network: NetworkName;
+  chainId: number;
+  resource: string;
+  serviceId: string;
+  title: string;
+  description?: string;
+  settlementRouter: string;
+  hookType: HookType;
+  hookAddress: string;
+  token: string;
+  tokenInfo: TokenInfo;
+  /** Payment amount in token units (e.g. "0.1") */
+  amount: string;
+  /** Payment amount in atomic token units */
+  maxAmountRequired: string;
+  facilitatorFee: string;
+  payTo: string;
+  supportingContracts?: X402ServiceConfig['supportingContracts'];
+  hookDataSchema: HookDataSchema;
+}
+
+/**
+ * Body of an HTTP 402 Payment Required response
+ */
+export interface PaymentRequiredResponse {
+  x402Version: number;
+  error: string;
+  message?: string;
+  issues?: string[];
+  accepts: PaymentRequirements[];
+}
+
+/**
+ * Settlement summary returned to the payer in the payment response header
+ */
+export interface PaymentResponse {
+  success: boolean;
+  txHash: string;
+  blockNumber: number;
+  network: NetworkName;
+}
+
+/**
+ * Reason a payment signature was rejected
+ */
+export type SignatureFailureReason =
+  | 'malformed-signature'
+  | 'typed-data-mismatch'
+  | 'signer-mismatch'
+  | 'contract-signature-invalid'
+  | 'expired'
+  | 'not-yet-valid';
+
+/**
+ * Single signature verification failure
+ */
+export interface SignatureFailure {
+  reason: SignatureFailureReason;
+  message: string;
+}
+
+/**
+ * Result of verifying a signature against a prepared transaction
+ */
+export interface SignatureVerificationResult {
+  valid: boolean;
+  /** Address recovered from the signature, when recovery succeeded */
+  signer?: string;
+  failures: SignatureFailure[];
+}
+
+/**
+ * Revert decoded from Error(string), Panic(uint256) or a known custom error
+ */
+export interface DecodedRevert {
+  /** Error name, e.g. "Error", "Panic" or "AuthorizationExpired" */
+  name: string;
+  /** Human-readable reason, e.g. "AuthorizationExpired(1700000000)" */
+  reason: string;
+  args: Record<string, unknown>;
+  /** Raw revert data */
+  data: string;
+  /** Revert decoded from nested bytes (e.g. a hook's own revert) */
+  inner?: DecodedRevert;
+}
+
+/**
+ * Dry-run result of settleAndExecute
+ */
+export interface SimulationResult {
+  success: boolean;
+  gasEstimate?: bigint;
+  revert?: DecodedRevert;
+  error?: string;
+}
+
+/**
+ * Result of checking an advertised service against the chain
+ */
+export interface ServiceVerificationResult {
+  serviceId: string;
+  verified: boolean;
+  issues: string[];
 }